@@ -0,0 +1,164 @@
+/**
+ * Generate TypeScript bindings for DigitalAssetRegistry from its ABI.
+ *
+ * Usage: npm run generate:types (also runs before dev and build; build then type-checks against the result)
+ * Output: src/contracts/DigitalAssetRegistry.types.ts (do not edit by hand)
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const abiPath = resolve(root, 'src/contracts/DigitalAssetRegistry.json');
+const outPath = resolve(root, 'src/contracts/DigitalAssetRegistry.types.ts');
+
+const abi = JSON.parse(readFileSync(abiPath, 'utf8'));
+const contractName = 'DigitalAssetRegistry';
+
+const pascal = (name) => name.charAt(0).toUpperCase() + name.slice(1);
+
+/**
+ * Map a Solidity ABI type to a TypeScript type (inputs accept looser types than outputs)
+ */
+const toTsType = (param, mode) => {
+  const { type } = param;
+
+  const array = type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    return `Array<${toTsType({ ...param, type: array[1] }, mode)}>`;
+  }
+  if (type === 'tuple') {
+    const fields = param.components.map((c) => `${c.name}: ${toTsType(c, mode)}`).join('; ');
+    return `{ ${fields} }`;
+  }
+  if (/^u?int\d*$/.test(type)) return mode === 'input' ? 'BigNumberish' : 'bigint';
+  if (type === 'address') return mode === 'input' ? 'AddressLike' : 'string';
+  if (type === 'bool') return 'boolean';
+  if (type === 'string') return 'string';
+  if (/^bytes\d*$/.test(type)) return mode === 'input' ? 'BytesLike' : 'string';
+
+  throw new Error(`Unsupported ABI type: ${type}`);
+};
+
+const argName = (param, i) => param.name || `arg${i}`;
+
+const inputTuple = (inputs) =>
+  `[${inputs.map((p, i) => `${argName(p, i)}: ${toTsType(p, 'input')}`).join(', ')}]`;
+
+const functions = abi.filter((item) => item.type === 'function');
+const events = abi.filter((item) => item.type === 'event');
+const viewFunctions = functions.filter((f) => f.stateMutability === 'view' || f.stateMutability === 'pure');
+const writeFunctions = functions.filter((f) => !viewFunctions.includes(f));
+
+const lines = [];
+const emit = (line = '') => lines.push(line);
+
+/**
+ * Output type of a function: void, a single value, or a named struct interface
+ */
+const outputType = (fn) => {
+  const outputs = fn.outputs || [];
+  if (outputs.length === 0) return 'void';
+  if (outputs.length === 1) return toTsType(outputs[0], 'output');
+  return `${pascal(fn.name)}Output`;
+};
+
+emit(`// Auto-generated by scripts/generate-contract-types.mjs from ${contractName}.json - do not edit.`);
+emit(`// Run \`npm run generate:types\` after changing the ABI.`);
+emit();
+emit(`import type {`);
+emit(`  AddressLike,`);
+emit(`  BaseContract,`);
+emit(`  BigNumberish,`);
+emit(`  BytesLike,`);
+emit(`  ContractTransactionResponse,`);
+emit(`  DeferredTopicFilter,`);
+emit(`  Overrides,`);
+emit(`} from 'ethers';`);
+emit();
+
+// Multi-value outputs
+emit(`// ---------------------------------------------------------------------------`);
+emit(`// Function outputs`);
+emit(`// ---------------------------------------------------------------------------`);
+emit();
+for (const fn of functions) {
+  if ((fn.outputs || []).length > 1) {
+    emit(`export interface ${pascal(fn.name)}Output {`);
+    fn.outputs.forEach((o, i) => emit(`  ${argName(o, i)}: ${toTsType(o, 'output')};`));
+    emit(`}`);
+    emit();
+  }
+}
+
+emit(`export interface ${contractName}FunctionInputs {`);
+for (const fn of functions) emit(`  ${fn.name}: ${inputTuple(fn.inputs)};`);
+emit(`}`);
+emit();
+emit(`export interface ${contractName}FunctionOutputs {`);
+for (const fn of functions) emit(`  ${fn.name}: ${outputType(fn)};`);
+emit(`}`);
+emit();
+emit(`export type ${contractName}ViewFunction = ${viewFunctions.map((f) => `'${f.name}'`).join(' | ')};`);
+emit();
+emit(`export type ${contractName}WriteFunction = ${writeFunctions.map((f) => `'${f.name}'`).join(' | ')};`);
+emit();
+
+// Events
+emit(`// ---------------------------------------------------------------------------`);
+emit(`// Events`);
+emit(`// ---------------------------------------------------------------------------`);
+emit();
+for (const ev of events) {
+  emit(`export interface ${ev.name}EventArgs {`);
+  ev.inputs.forEach((p, i) => emit(`  ${argName(p, i)}: ${toTsType(p, 'output')};`));
+  emit(`}`);
+  emit();
+}
+emit(`export interface ${contractName}EventArgs {`);
+for (const ev of events) emit(`  ${ev.name}: ${ev.name}EventArgs;`);
+emit(`}`);
+emit();
+emit(`export type ${contractName}EventName = keyof ${contractName}EventArgs;`);
+emit();
+emit(`// Indexed parameters usable as topic filters (null/undefined matches anything)`);
+emit(`export interface ${contractName}EventFilters {`);
+for (const ev of events) {
+  const indexed = ev.inputs
+    .map((p, i) => ({ p, i }))
+    .filter(({ p }) => p.indexed)
+    .map(({ p, i }) => `${argName(p, i)}?: ${toTsType(p, 'input')} | null`);
+  emit(`  ${ev.name}(${indexed.join(', ')}): DeferredTopicFilter;`);
+}
+emit(`}`);
+emit();
+
+// Contract
+emit(`// ---------------------------------------------------------------------------`);
+emit(`// Contract`);
+emit(`// ---------------------------------------------------------------------------`);
+emit();
+emit(`export interface TypedViewMethod<A extends unknown[], R> {`);
+emit(`  (...args: A): Promise<R>;`);
+emit(`  staticCall(...args: A): Promise<R>;`);
+emit(`}`);
+emit();
+emit(`export interface TypedWriteMethod<A extends unknown[], R> {`);
+emit(`  (...args: A | [...A, Overrides]): Promise<ContractTransactionResponse>;`);
+emit(`  staticCall(...args: A | [...A, Overrides]): Promise<R>;`);
+emit(`  estimateGas(...args: A | [...A, Overrides]): Promise<bigint>;`);
+emit(`}`);
+emit();
+// BaseContract types filters as a loose record; replace it with the typed filters
+emit(`export interface ${contractName} extends Omit<BaseContract, 'filters'> {`);
+for (const fn of viewFunctions) {
+  emit(`  ${fn.name}: TypedViewMethod<${contractName}FunctionInputs['${fn.name}'], ${contractName}FunctionOutputs['${fn.name}']>;`);
+}
+for (const fn of writeFunctions) {
+  emit(`  ${fn.name}: TypedWriteMethod<${contractName}FunctionInputs['${fn.name}'], ${contractName}FunctionOutputs['${fn.name}']>;`);
+}
+emit(`  filters: ${contractName}EventFilters;`);
+emit(`}`);
+
+writeFileSync(outPath, lines.join('\n') + '\n');
+console.log(`Generated ${outPath.replace(root + '/', '')} (${functions.length} functions, ${events.length} events)`);
@@ -1,13 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Eye } from 'lucide-react';
 import WalletRegistration from './components/WalletRegistration';
 import Dashboard from './components/Dashboard';
 import RegisterAsset from './components/RegisterAsset';
 import AssetDetail from './components/AssetDetail';
 import ExplorePage from './components/ExplorePage';
+import ActivityPage from './components/ActivityPage';
+import AddressBookPage from './components/AddressBookPage';
 import Sidebar from './components/Sidebar';
-import { loadMyAssets, loadAllAssets, loadAsset } from './utils/assetLoader';
-import { logUsage, transferOwnership, grantPermission, revokePermission } from './utils/contract';
-import { ensureSepoliaNetwork } from './utils/web3';
+import TransactionQueue from './components/TransactionQueue';
+import AddressDisplay from './components/AddressDisplay';
+import { useRegistry } from './hooks/useRegistry';
+import { logUsage } from './utils/contract';
+import { useWalletContext } from './contexts/WalletContext';
+import { ensureNetwork, getTargetNetwork, isWalletAvailable } from './utils/web3';
+import { RegistryError, toRegistryError } from './utils/errors';
+import { AppView, getUiState, saveUiState } from './utils/walletSession';
+import { resumePendingTransactions, onTransactionSettled } from './utils/transactionManager';
+import { usageMessages } from './utils/writeFlows';
+import { startWorkflow, workflowDefinitions, recoverInterruptedWorkflows } from './utils/workflows';
 
 export interface Asset {
   id: string;
@@ -26,287 +37,262 @@ export interface UsageLog {
   description: string;
   user: string;
   timestamp: string;
+  txHash?: string; // UsageLogged transaction (missing for optimistic or storage-only entries)
+  blockNumber?: number;
+  logIndex?: number;
 }
 
 export default function App() {
-  const [walletAddress, setWalletAddress] = useState<string>('');
-  const [isWalletRegistered, setIsWalletRegistered] = useState(false);
-  const [currentView, setCurrentView] = useState<'dashboard' | 'register' | 'detail' | 'explore'>('dashboard');
+  const {
+    walletAddress,
+    isWatchOnly,
+    isRestoring,
+    isWrongNetwork,
+    chainId,
+    watchAddress,
+    connectWatchedWallet,
+    disconnect,
+  } = useWalletContext();
+  const [isGuest, setIsGuest] = useState(false); // Browsing read-only without a wallet
+  const [watchError, setWatchError] = useState<string | null>(null);
+  const [networkError, setNetworkError] = useState<string | null>(null);
+  // A remembered session reopens where it was left (getUiState is null unless the wallet is remembered)
+  const [currentView, setCurrentView] = useState<AppView>(() => getUiState()?.view ?? 'dashboard');
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
-  const [assets, setAssets] = useState<Asset[]>([]); // My assets (for dashboard)
-  const [allAssets, setAllAssets] = useState<Asset[]>([]); // All assets (for explore)
-  const [isLoadingAssets, setIsLoadingAssets] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [restoredAssetId, setRestoredAssetId] = useState<string | null>(() => getUiState()?.selectedAssetId ?? null); // Reopened once the registry has it
+  const registry = useRegistry();
+  const allAssets = registry.assets; // All assets (for explore)
 
-  // Clear wallet on mount to force fresh connection - run ONCE on app start
+  // The open asset follows live registry updates; fall back to the snapshot if it is not indexed
+  const viewedAsset = useMemo(
+    () => (selectedAsset ? allAssets.find(asset => asset.id === selectedAsset.id) ?? selectedAsset : null),
+    [allAssets, selectedAsset]
+  );
+  const [loadError, setLoadError] = useState<RegistryError | null>(null);
+
+  // My assets (for dashboard)
+  const assets = useMemo(
+    () => allAssets.filter(asset => asset.owner.toLowerCase() === walletAddress.toLowerCase()),
+    [allAssets, walletAddress]
+  );
+
+  // Assets others shared with me
+  const sharedAssets = useMemo(
+    () => allAssets.filter(asset =>
+      asset.owner.toLowerCase() !== walletAddress.toLowerCase() &&
+      asset.permissions.some(address => address.toLowerCase() === walletAddress.toLowerCase())
+    ),
+    [allAssets, walletAddress]
+  );
+
+  // Only block the UI when there is no cached state to show yet
+  const isLoadingAssets = registry.isSyncing && !registry.hasData;
+
+  // Keep the view and open asset for the next visit (only stored while the wallet is remembered)
+  useEffect(() => {
+    if (!walletAddress || isWatchOnly || isRestoring) return;
+    saveUiState({ view: currentView, selectedAssetId: selectedAsset?.id ?? restoredAssetId });
+  }, [walletAddress, isWatchOnly, isRestoring, currentView, selectedAsset, restoredAssetId]);
+
+  // Messages about the previous identity no longer apply after an account switch
+  useEffect(() => {
+    setWatchError(null);
+  }, [walletAddress]);
+
+  // The wallet's chain is tracked live; clear a stale switch error once it is back on the target network
+  useEffect(() => {
+    if (!isWrongNetwork) setNetworkError(null);
+  }, [isWrongNetwork, chainId]);
+
+  // Reopen the restored asset once it is indexed; fall back to the dashboard if it never shows up
   useEffect(() => {
-    // Always clear localStorage on initial load
-    localStorage.clear();
-    console.log('🔴 Wallet cleared - forcing fresh connection');
-  }, []); // Empty dependency array = runs only once on mount
+    if (!restoredAssetId) return;
 
-  // Load assets from BLOCKCHAIN when wallet connects
+    const asset = allAssets.find(a => a.id === restoredAssetId);
+    if (asset) {
+      setSelectedAsset(asset);
+      setRestoredAssetId(null);
+    } else if (registry.hasData && !registry.isSyncing) {
+      setRestoredAssetId(null);
+      setCurrentView(view => (view === 'detail' ? 'dashboard' : view));
+    }
+  }, [restoredAssetId, allAssets, registry.hasData, registry.isSyncing]);
+
+  // Resume receipt watching for transactions that were pending before a reload,
+  // and settle workflow steps that were in flight
   useEffect(() => {
-    if (walletAddress) {
+    resumePendingTransactions().catch((error) => console.warn('Could not resume pending transactions:', error));
+    recoverInterruptedWorkflows().catch((error) => console.warn('Could not recover interrupted workflows:', error));
+  }, []);
+
+  // Whichever transaction landed for a nonce (original, speed-up or cancel), catch up with its events
+  useEffect(() => onTransactionSettled(() => syncLatestEvents()), [registry.refresh]);
+
+  // Load assets from BLOCKCHAIN when wallet connects (or a visitor starts browsing)
+  useEffect(() => {
+    if (walletAddress || isGuest) {
       loadAssetsFromBlockchain();
     }
-  }, [walletAddress]);
+  }, [walletAddress, isGuest]);
 
   const loadAssetsFromBlockchain = async () => {
-    setIsLoadingAssets(true);
     setLoadError(null);
     
     try {
       console.log('Loading assets from blockchain for:', walletAddress);
       
-      // Check and switch to Sepolia network if needed
-      try {
-        await ensureSepoliaNetwork();
-      } catch (networkError: any) {
-        console.error('❌ Network error:', networkError);
-        setLoadError(networkError.message || 'Failed to switch to Sepolia network. Please switch manually in MetaMask.');
-        setIsLoadingAssets(false);
-        return;
-      }
-      
-      // Load my assets for dashboard
-      const myAssets = await loadMyAssets(walletAddress);
-      console.log('Loaded my assets from blockchain:', myAssets);
-      setAssets(myAssets);
-      
-      // Load ALL assets for explore page
-      const allAssetsData = await loadAllAssets();
-      console.log('Loaded all assets from blockchain:', allAssetsData);
-      setAllAssets(allAssetsData);
-      
-      if (myAssets.length === 0) {
-        console.log('No assets found on blockchain for this wallet. This is normal for a new wallet.');
+      // Check and switch to the target network if needed (reads go through the RPC provider,
+      // but the wallet must be on the right network to sign later)
+      if (walletAddress && !isWatchOnly && isWalletAvailable()) {
+        try {
+          await ensureNetwork();
+        } catch (networkError) {
+          console.error('❌ Network error:', networkError);
+          setLoadError(toRegistryError(networkError));
+          return;
+        }
       }
       
-      // Also save to localStorage as backup
-      if (myAssets.length > 0) {
-        localStorage.setItem(`assets_${walletAddress}`, JSON.stringify(myAssets));
-      }
+      // Renders the cached registry immediately, then applies logs after the last synced block
+      await registry.refresh();
     } catch (error) {
       console.error('Failed to load assets from blockchain:', error);
       
-      // Check if it's just a "no assets" error vs actual connection error
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('could not decode result data') || errorMessage.includes('BAD_DATA')) {
-        console.log('No assets registered yet on this contract. This is normal for a new deployment.');
-        setAssets([]);
-        setAllAssets([]);
-        setLoadError(null); // Not really an error, just no assets yet
-      } else {
-        setLoadError('Failed to load assets from blockchain. Make sure contract is deployed and you\'re on the correct network (Sepolia).');
-        
-        // Fallback to localStorage
-        const savedAssets = localStorage.getItem(`assets_${walletAddress}`);
-        if (savedAssets) {
-          try {
-            setAssets(JSON.parse(savedAssets));
-            console.log('Loaded assets from localStorage as fallback');
-          } catch (e) {
-            setAssets([]);
-          }
-        } else {
-          setAssets([]);
-        }
+      // A fresh deployment simply has no events, so any error here is a real failure
+      const registryError = toRegistryError(error);
+      switch (registryError.kind) {
+        case 'rpc-unavailable':
+        case 'wrong-network':
+          setLoadError(registryError);
+          break;
+        default:
+          setLoadError(new RegistryError(
+            registryError.kind,
+            `Failed to load assets from blockchain. Make sure contract is deployed and you're on the correct network (${getTargetNetwork().chainName}).`,
+            { cause: error }
+          ));
       }
-    } finally {
-      setIsLoadingAssets(false);
     }
   };
 
-  const handleWalletRegistration = (address: string) => {
-    setWalletAddress(address);
-    setIsWalletRegistered(true);
-    // Do NOT save to localStorage - wallet should not persist
-    // localStorage.setItem('walletAddress', address);
+  // Apply events mined since the last sync without reloading the registry
+  const syncLatestEvents = () => {
+    registry.refresh().catch((error) => console.warn('Incremental sync failed:', error));
+  };
+
+  // Browse as a manually entered address; nothing can be signed until that wallet connects
+  const handleWatchAddress = (address: string) => {
+    setIsGuest(false);
+    watchAddress(address);
+  };
+
+  const handleConnectWatchedWallet = async () => {
+    setWatchError(null);
+    try {
+      await connectWatchedWallet();
+    } catch (error) {
+      setWatchError(toRegistryError(error).message);
+    }
+  };
+
+  const handleSwitchNetwork = async () => {
+    setNetworkError(null);
+    try {
+      await ensureNetwork();
+    } catch (error) {
+      setNetworkError(toRegistryError(error).message);
+    }
   };
 
-  const handleDisconnectWallet = () => {
+  const handleBrowseAsGuest = () => {
+    setIsGuest(true);
+    setCurrentView('explore');
+  };
+
+  const handleDisconnectWallet = async () => {
     console.log('🔴 DISCONNECT CLICKED - Starting disconnect process...');
+
+    // A real logout: revokes the wallet permission and clears the app's session keys
+    // (tracked transactions are kept so pending ones still settle)
+    await disconnect();
     
-    // Clear all state
-    setWalletAddress('');
-    setIsWalletRegistered(false);
-    setAssets([]);
-    setAllAssets([]);
+    // Clear all state; every wallet consumer reads the cleared context, so no reload is needed
+    setIsGuest(false);
+    setWatchError(null);
     setSelectedAsset(null);
+    setRestoredAssetId(null);
     setCurrentView('dashboard');
     
-    console.log('🔴 State cleared, clearing localStorage...');
-    
-    // Clear localStorage
-    localStorage.removeItem('walletAddress');
-    localStorage.clear();
-    
-    console.log('🔴 localStorage cleared, reloading page...');
-    
-    // Force page reload to ensure clean state
-    setTimeout(() => {
-      window.location.reload();
-    }, 100);
+    console.log('🔴 Disconnected');
   };
 
   const handleAddAsset = (asset: Omit<Asset, 'id' | 'author' | 'owner' | 'createdAt' | 'permissions' | 'usageLogs'>) => {
     // This is now just a placeholder - actual registration happens in RegisterAsset component
-    // After blockchain registration, we reload all assets
-    loadAssetsFromBlockchain();
+    // After blockchain registration, the AssetRegistered event is picked up incrementally
+    syncLatestEvents();
     setCurrentView('dashboard');
   };
 
   const handleAssetRegistered = () => {
-    // Reload assets from blockchain after successful registration
-    loadAssetsFromBlockchain();
+    // Pick up the AssetRegistered event (the subscription usually has it already)
+    syncLatestEvents();
     setCurrentView('dashboard');
   };
 
   const handleTransferOwnership = async (assetId: string, newOwner: string) => {
-    try {
-      const assetIdNum = parseInt(assetId);
-      if (isNaN(assetIdNum)) {
-        console.error('Invalid asset ID');
-        return;
-      }
-
-      // Step 1: Grant permission to yourself BEFORE transferring (so you retain access)
-      console.log('Granting access to old owner (yourself) before transfer...');
-      await grantPermission(assetIdNum, walletAddress);
-      console.log('✅ Access granted to old owner');
+    const assetIdNum = parseInt(assetId);
+    if (isNaN(assetIdNum)) {
+      console.error('Invalid asset ID');
+      return;
+    }
 
-      // Step 2: Log the transfer (while we still have permission)
-      const usageMsg = `User ${walletAddress} transferred ownership to ${newOwner}`;
-      console.log('Logging ownership transfer...');
-      await logUsage(assetIdNum, usageMsg);
-      console.log('✅ Transfer logged to blockchain');
+    // Grant yourself access, log the transfer while you still can, then transfer.
+    // Step progress (and resume/skip after a failure) is shown in the transaction queue.
+    const run = await startWorkflow(workflowDefinitions.transferOwnership(assetIdNum, walletAddress, newOwner));
+    if (run.status !== 'completed') return;
 
-      // Step 3: Transfer ownership to new owner
-      console.log('Transferring ownership on blockchain...');
-      await transferOwnership(assetIdNum, newOwner);
-      console.log('✅ Ownership transferred on blockchain');
+    // The registry subscription applies the new events; catch up in case it lags behind
+    syncLatestEvents();
 
-      console.log('✅ You retained access as the previous owner');
+    // Navigate back to dashboard since user is no longer the owner
+    setCurrentView('dashboard');
+    setSelectedAsset(null);
 
-      // Reload assets from blockchain to get updated data
-      console.log('Reloading assets from blockchain...');
-      await loadAssetsFromBlockchain();
-      
-      // Update selectedAsset if we're currently viewing it
-      if (selectedAsset && selectedAsset.id === assetId) {
-        const updatedAsset = await loadAsset(assetIdNum);
-        if (updatedAsset) {
-          setSelectedAsset(updatedAsset);
-          console.log('✅ Selected asset refreshed after ownership transfer');
-        }
-      }
-      
-      // Navigate back to dashboard since user is no longer the owner
-      setCurrentView('dashboard');
-      setSelectedAsset(null);
-      
-      alert('Ownership transferred successfully! You retained access to this asset.');
-      
-    } catch (error) {
-      console.error('Failed to transfer ownership:', error);
-      alert('Failed to transfer ownership. Please try again.');
-    }
+    alert('Ownership transferred successfully! You retained access to this asset.');
   };
 
   const handleGrantAccess = async (assetId: string, userAddress: string) => {
-    try {
-      const assetIdNum = parseInt(assetId);
-      if (isNaN(assetIdNum)) {
-        console.error('Invalid asset ID');
-        return;
-      }
-
-      // Call blockchain function to grant permission
-      console.log('Granting access on blockchain...');
-      await grantPermission(assetIdNum, userAddress);
-      console.log('✅ Access granted on blockchain');
-
-      // Log the action
-      const usageMsg = `User ${walletAddress} granted access to ${userAddress}`;
-      console.log('Logging access grant...');
-      await logUsage(assetIdNum, usageMsg);
-      console.log('✅ Access grant logged to blockchain');
+    const assetIdNum = parseInt(assetId);
+    if (isNaN(assetIdNum)) {
+      console.error('Invalid asset ID');
+      return;
+    }
 
-      // Reload assets from blockchain to get updated data
-      await loadAssetsFromBlockchain();
-      
-      // Update selectedAsset if we're currently viewing it
-      if (selectedAsset && selectedAsset.id === assetId) {
-        const updatedAsset = await loadAsset(assetIdNum);
-        if (updatedAsset) {
-          setSelectedAsset(updatedAsset);
-          console.log('✅ Selected asset refreshed with new permissions');
-        }
-      }
-      
-    } catch (error) {
-      console.error('Failed to grant access:', error);
-      alert('Failed to grant access. Please try again.');
+    const run = await startWorkflow(workflowDefinitions.grantAccess(assetIdNum, walletAddress, userAddress));
+    if (run.status === 'completed') {
+      syncLatestEvents();
     }
   };
 
   const handleRevokeAccess = async (assetId: string, userAddress: string) => {
-    try {
-      const assetIdNum = parseInt(assetId);
-      if (isNaN(assetIdNum)) {
-        console.error('Invalid asset ID');
-        return;
-      }
-
-      // Call blockchain function to revoke permission
-      console.log('Revoking access on blockchain...');
-      await revokePermission(assetIdNum, userAddress);
-      console.log('✅ Access revoked on blockchain');
-
-      // Log the action
-      const usageMsg = `User ${walletAddress} revoked access from ${userAddress}`;
-      console.log('Logging access revocation...');
-      await logUsage(assetIdNum, usageMsg);
-      console.log('✅ Access revocation logged to blockchain');
+    const assetIdNum = parseInt(assetId);
+    if (isNaN(assetIdNum)) {
+      console.error('Invalid asset ID');
+      return;
+    }
 
-      // Reload assets from blockchain to get updated data
-      await loadAssetsFromBlockchain();
-      
-      // Update selectedAsset if we're currently viewing it
-      if (selectedAsset && selectedAsset.id === assetId) {
-        const updatedAsset = await loadAsset(assetIdNum);
-        if (updatedAsset) {
-          setSelectedAsset(updatedAsset);
-          console.log('✅ Selected asset refreshed with updated permissions');
-        }
-      }
-      
-    } catch (error) {
-      console.error('Failed to revoke access:', error);
-      alert('Failed to revoke access. Please try again.');
+    const run = await startWorkflow(workflowDefinitions.revokeAccess(assetIdNum, walletAddress, userAddress));
+    if (run.status === 'completed') {
+      syncLatestEvents();
     }
   };
 
   const handleLogUsage = async (assetId: string, description: string) => {
-    const newLog: UsageLog = {
-      id: Date.now().toString(),
-      description,
-      user: walletAddress,
-      timestamp: new Date().toLocaleString()
-    };
-    setAssets(assets.map(asset => 
-      asset.id === assetId ? { ...asset, usageLogs: [newLog, ...asset.usageLogs] } : asset
-    ));
-    if (selectedAsset?.id === assetId) {
-      setSelectedAsset({ ...selectedAsset, usageLogs: [newLog, ...selectedAsset.usageLogs] });
-    }
-    
-    // Log to blockchain
+    // Log to blockchain (the UsageLogged event then shows up through the registry subscription)
     try {
       const assetIdNum = parseInt(assetId);
       if (!isNaN(assetIdNum)) {
-        const usageMsg = `User ${walletAddress} - ${description}`;
+        const usageMsg = usageMessages.custom(walletAddress, description);
         console.log('Logging custom usage to blockchain:', usageMsg);
         await logUsage(assetIdNum, usageMsg);
         console.log('Custom usage logged to blockchain');
@@ -321,8 +307,19 @@ export default function App() {
     setCurrentView('detail');
   };
 
-  if (!isWalletRegistered) {
-    return <WalletRegistration onRegister={handleWalletRegistration} />;
+  if (isRestoring) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-900 mb-2">Reconnecting your wallet...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!walletAddress && !isGuest) {
+    return <WalletRegistration onWatch={handleWatchAddress} onBrowse={handleBrowseAsGuest} />;
   }
 
   // Show loading state while loading assets from blockchain
@@ -339,20 +336,22 @@ export default function App() {
   }
 
   // Show error banner if blockchain loading failed
+  const isNetworkError = loadError?.kind === 'wrong-network';
   const errorBanner = loadError && (
-    <div className={`border-l-4 p-4 ${loadError.includes('Wrong Network') ? 'bg-red-50 border-red-400' : 'bg-yellow-50 border-yellow-400'}`}>
+    <div className={`border-l-4 p-4 ${isNetworkError ? 'bg-red-50 border-red-400' : 'bg-yellow-50 border-yellow-400'}`}>
       <div className="flex">
         <div className="flex-shrink-0">
-          <svg className={`h-5 w-5 ${loadError.includes('Wrong Network') ? 'text-red-400' : 'text-yellow-400'}`} viewBox="0 0 20 20" fill="currentColor">
+          <svg className={`h-5 w-5 ${isNetworkError ? 'text-red-400' : 'text-yellow-400'}`} viewBox="0 0 20 20" fill="currentColor">
             <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
           </svg>
         </div>
         <div className="ml-3">
-          <p className={`text-sm ${loadError.includes('Wrong Network') ? 'text-red-700' : 'text-yellow-700'}`}>
-            {loadError}
+          <p className={`text-sm ${isNetworkError ? 'text-red-700' : 'text-yellow-700'}`}>
+            {loadError.message}
+            {registry.isStale && ` Showing cached data from block ${registry.lastSyncedBlock}.`}
             <button
               onClick={loadAssetsFromBlockchain}
-              className={`ml-4 font-medium underline ${loadError.includes('Wrong Network') ? 'text-red-700 hover:text-red-600' : 'text-yellow-700 hover:text-yellow-600'}`}
+              className={`ml-4 font-medium underline ${isNetworkError ? 'text-red-700 hover:text-red-600' : 'text-yellow-700 hover:text-yellow-600'}`}
             >
               Retry
             </button>
@@ -362,47 +361,109 @@ export default function App() {
     </div>
   );
 
+  // Cached data is rendered while the incremental sync catches up
+  const staleBanner = registry.isStale && !loadError && (
+    <div className="bg-blue-50 border-l-4 border-blue-400 p-3">
+      <div className="flex items-center gap-3">
+        <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        <p className="text-sm text-blue-700">
+          Showing cached data from block {registry.lastSyncedBlock} - syncing with blockchain...
+        </p>
+      </div>
+    </div>
+  );
+
+  // Watching an address: explain why write controls are disabled and offer to connect that wallet
+  const watchBanner = isWatchOnly && (
+    <div className="bg-purple-50 border-b border-purple-200 px-8 py-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Eye className="w-5 h-5 text-purple-600 flex-shrink-0" />
+          <p className="text-sm text-purple-800">
+            View-only: watching <AddressDisplay address={walletAddress} className="font-medium" />.
+            Write actions are disabled until you connect the wallet for this address.
+          </p>
+        </div>
+        <button
+          onClick={handleConnectWatchedWallet}
+          className="flex-shrink-0 px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          Connect this wallet
+        </button>
+      </div>
+      {watchError && <p className="mt-2 text-sm text-red-600">{watchError}</p>}
+    </div>
+  );
+
+  // The wallet moved to another chain; reads keep working, signing waits for a switch back
+  const networkBanner = isWrongNetwork && (
+    <div className="bg-red-50 border-b border-red-200 px-8 py-3">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-red-700">
+          Your wallet is on another network. Switch to {getTargetNetwork().chainName} to sign transactions.
+        </p>
+        <button
+          onClick={handleSwitchNetwork}
+          className="flex-shrink-0 px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+        >
+          Switch network
+        </button>
+      </div>
+      {networkError && <p className="mt-2 text-sm text-red-600">{networkError}</p>}
+    </div>
+  );
+
   return (
     <div className="flex min-h-screen bg-gray-50">{errorBanner && <div className="fixed top-0 left-0 right-0 z-50">{errorBanner}</div>}
+      {staleBanner && <div className="fixed top-0 left-64 right-0 z-40">{staleBanner}</div>}
+      <TransactionQueue />
       <Sidebar 
         currentView={currentView} 
         onNavigate={setCurrentView}
-        walletAddress={walletAddress}
         onDisconnect={handleDisconnectWallet}
+        onConnect={() => setIsGuest(false)}
       />
-      <main className="flex-1 ml-64">
+      {/* Keyed by identity: an account switch closes open modals and forms started by the old account */}
+      <main key={walletAddress} className="flex-1 ml-64">
+        {watchBanner}
+        {networkBanner}
         {currentView === 'dashboard' && (
           <Dashboard 
             assets={assets}
-            walletAddress={walletAddress}
+            sharedAssets={sharedAssets}
             onViewAsset={handleViewAsset}
             onTransferOwnership={handleTransferOwnership}
             onGrantAccess={handleGrantAccess}
             onRevokeAccess={handleRevokeAccess}
           />
         )}
-        {currentView === 'register' && (
+        {currentView === 'register' && !isWatchOnly && (
           <RegisterAsset onSubmit={handleAssetRegistered} onCancel={() => setCurrentView('dashboard')} />
         )}
-        {currentView === 'detail' && selectedAsset && (
+        {currentView === 'detail' && viewedAsset && (
           <AssetDetail 
-            asset={selectedAsset}
-            walletAddress={walletAddress}
+            asset={viewedAsset}
             onTransferOwnership={handleTransferOwnership}
             onGrantAccess={handleGrantAccess}
             onRevokeAccess={handleRevokeAccess}
             onLogUsage={handleLogUsage}
-            onBack={() => setCurrentView('dashboard')}
+            onBack={() => setCurrentView(walletAddress ? 'dashboard' : 'explore')}
           />
         )}
         {currentView === 'explore' && (
           <ExplorePage 
             assets={allAssets}
-            walletAddress={walletAddress}
             onViewAsset={handleViewAsset}
             onLogUsage={handleLogUsage}
           />
         )}
+        {currentView === 'activity' && walletAddress && (
+          <ActivityPage
+            assets={allAssets}
+            onViewAsset={handleViewAsset}
+          />
+        )}
+        {currentView === 'contacts' && <AddressBookPage />}
       </main>
     </div>
   );
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { History, Filter, ExternalLink, RefreshCw, Loader2, ArrowUpRight, ArrowDownLeft } from 'lucide-react';
+import { Asset } from '../App';
+import AddressDisplay from './AddressDisplay';
+import { useActivity } from '../hooks/useActivity';
+import type { ActivityEntry } from '../utils/activity';
+import type { RegistryEventName } from '../utils/indexer';
+import { getExplorerUrl } from '../utils/web3';
+import { formatCost } from '../utils/gas';
+import { useWalletContext } from '../contexts/WalletContext';
+
+interface ActivityPageProps {
+  assets: Asset[];
+  onViewAsset: (asset: Asset) => void;
+}
+
+const actionOptions: { value: RegistryEventName | 'all'; label: string }[] = [
+  { value: 'all', label: 'All actions' },
+  { value: 'AssetRegistered', label: 'Registrations' },
+  { value: 'PermissionGranted', label: 'Grants' },
+  { value: 'PermissionRevoked', label: 'Revokes' },
+  { value: 'OwnershipTransferred', label: 'Transfers' },
+  { value: 'UsageLogged', label: 'Usage logs' },
+];
+
+const getActionLabel = (entry: ActivityEntry): string => {
+  const outgoing = entry.direction === 'outgoing';
+  switch (entry.action) {
+    case 'AssetRegistered': return outgoing ? 'Registered asset' : 'Registered for you';
+    case 'PermissionGranted': return outgoing ? 'Granted access' : 'Received access';
+    case 'PermissionRevoked': return outgoing ? 'Revoked access' : 'Access revoked';
+    case 'OwnershipTransferred': return outgoing ? 'Transferred ownership' : 'Received ownership';
+    case 'UsageLogged': return 'Logged usage';
+  }
+};
+
+const getActionBadgeColor = (action: RegistryEventName) => {
+  switch (action) {
+    case 'AssetRegistered': return 'bg-blue-100 text-blue-700 border-blue-200';
+    case 'PermissionGranted': return 'bg-green-100 text-green-700 border-green-200';
+    case 'PermissionRevoked': return 'bg-red-100 text-red-700 border-red-200';
+    case 'OwnershipTransferred': return 'bg-purple-100 text-purple-700 border-purple-200';
+    case 'UsageLogged': return 'bg-gray-100 text-gray-700 border-gray-200';
+  }
+};
+
+export default function ActivityPage({ assets, onViewAsset }: ActivityPageProps) {
+  const { walletAddress } = useWalletContext();
+  const { entries, isLoading, error, refresh } = useActivity(walletAddress);
+  const [filterAction, setFilterAction] = useState<RegistryEventName | 'all'>('all');
+  const [filterAsset, setFilterAsset] = useState<string>('all');
+
+  const findAsset = (assetId: number) => assets.find(asset => asset.id === assetId.toString());
+
+  const assetIds = Array.from(new Set(entries.map(entry => entry.assetId))).sort((a, b) => a - b);
+
+  const filteredEntries = entries.filter(entry =>
+    (filterAction === 'all' || entry.action === filterAction) &&
+    (filterAsset === 'all' || entry.assetId.toString() === filterAsset)
+  );
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-gray-900 mb-2">Activity</h1>
+          <p className="text-gray-600">Everything your wallet has done on the registry</p>
+        </div>
+        <button
+          onClick={refresh}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 text-sm rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="relative">
+            <Filter className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <select
+              value={filterAction}
+              onChange={(e) => setFilterAction(e.target.value as RegistryEventName | 'all')}
+              className="pl-12 pr-8 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none cursor-pointer min-w-[180px]"
+            >
+              {actionOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="relative">
+            <Filter className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <select
+              value={filterAsset}
+              onChange={(e) => setFilterAsset(e.target.value)}
+              className="pl-12 pr-8 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none cursor-pointer min-w-[220px]"
+            >
+              <option value="all">All assets</option>
+              {assetIds.map(assetId => (
+                <option key={assetId} value={assetId.toString()}>
+                  {findAsset(assetId)?.name ?? `Asset #${assetId}`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Activity Table */}
+      {isLoading && entries.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 flex items-center justify-center gap-2 text-gray-600">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading activity from the blockchain...
+        </div>
+      ) : filteredEntries.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <History className="w-8 h-8 text-gray-400" />
+          </div>
+          <h3 className="text-gray-900 mb-2">No activity found</h3>
+          <p className="text-gray-600">
+            {entries.length === 0 ? 'Transactions you send to the registry will show up here' : 'Try adjusting your filters'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs text-gray-600">
+              <tr>
+                <th className="px-4 py-3">Asset</th>
+                <th className="px-4 py-3">Action</th>
+                <th className="px-4 py-3">Counterparty</th>
+                <th className="px-4 py-3">Time</th>
+                <th className="px-4 py-3">Gas spent</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredEntries.map(entry => {
+                const asset = findAsset(entry.assetId);
+                const txUrl = getExplorerUrl('tx', entry.transactionHash);
+                const DirectionIcon = entry.direction === 'outgoing' ? ArrowUpRight : ArrowDownLeft;
+
+                return (
+                  <tr key={entry.key} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      {asset ? (
+                        <button onClick={() => onViewAsset(asset)} className="text-blue-600 hover:text-blue-700 text-left">
+                          {asset.name}
+                        </button>
+                      ) : (
+                        <span className="text-gray-500">Asset #{entry.assetId}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-lg text-xs border ${getActionBadgeColor(entry.action)}`}>
+                        <DirectionIcon className="w-3 h-3" />
+                        {getActionLabel(entry)}
+                      </span>
+                      {entry.description && (
+                        <p className="mt-1 text-xs text-gray-500 line-clamp-1">{entry.description}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {entry.counterparty ? (
+                        <AddressDisplay address={entry.counterparty} showAvatar className="text-xs text-gray-900" />
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                      {entry.timestamp !== null ? new Date(entry.timestamp * 1000).toLocaleString() : <span className="text-gray-400">-</span>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                      {!entry.hasDetails ? (
+                        <span className="text-gray-400">unavailable</span>
+                      ) : entry.gasCost !== null ? (
+                        formatCost(entry.gasCost)
+                      ) : (
+                        <span className="text-gray-400">paid by sender</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {txUrl && (
+                        <a
+                          href={txUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex text-blue-600 hover:text-blue-700"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from 'react';
+import { BookUser, Search, Plus, Pencil, Trash2, Upload, Download, X } from 'lucide-react';
+import { useAddressBook } from '../hooks/useAddressBook';
+import type { AddressBookFormat, Contact } from '../utils/addressBook';
+
+interface ContactForm {
+  address: string;
+  name: string;
+  tags: string; // Comma-separated while editing
+  notes: string;
+}
+
+const emptyForm: ContactForm = { address: '', name: '', tags: '', notes: '' };
+
+export default function AddressBookPage() {
+  const { contacts, save, remove, importContacts, exportContacts } = useAddressBook();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [form, setForm] = useState<ContactForm | null>(null);
+  const [editingAddress, setEditingAddress] = useState<string | null>(null);
+  const [formError, setFormError] = useState('');
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const query = searchTerm.trim().toLowerCase();
+  const filteredContacts = contacts.filter(contact =>
+    !query ||
+    contact.name.toLowerCase().includes(query) ||
+    contact.address.toLowerCase().includes(query) ||
+    contact.tags.some(tag => tag.includes(query)) ||
+    contact.notes.toLowerCase().includes(query)
+  );
+
+  const openForm = (contact?: Contact) => {
+    setForm(contact
+      ? { address: contact.address, name: contact.name, tags: contact.tags.join(', '), notes: contact.notes }
+      : emptyForm);
+    setEditingAddress(contact?.address ?? null);
+    setFormError('');
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingAddress(null);
+    setFormError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    try {
+      // Changing the address of an existing contact replaces the old entry
+      save({ ...form, replaces: editingAddress ?? undefined });
+      closeForm();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not save the contact');
+    }
+  };
+
+  const handleRemove = (contact: Contact) => {
+    if (window.confirm(`Remove ${contact.name} from your address book?`)) {
+      remove(contact.address);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setImportMessage(null);
+    try {
+      const text = await file.text();
+      const format: AddressBookFormat = file.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('[')
+        ? 'json'
+        : 'csv';
+      const result = importContacts(text, format);
+      const skipped = result.invalid.length > 0 ? `, ${result.invalid.length} skipped (missing name or invalid address)` : '';
+      setImportMessage({
+        text: `Imported ${result.added} new and ${result.updated} updated contact${result.added + result.updated !== 1 ? 's' : ''}${skipped}.`,
+        isError: false,
+      });
+    } catch (err) {
+      console.error('Error importing address book:', err);
+      setImportMessage({ text: 'Could not read the selected file. Use a JSON or CSV export.', isError: true });
+    }
+  };
+
+  const handleExport = (format: AddressBookFormat) => {
+    const blob = new Blob([exportContacts(format)], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `address-book.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-gray-900 mb-2">Address Book</h1>
+          <p className="text-gray-600">Names for the addresses you work with, stored on this device only</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 text-sm rounded-xl hover:bg-gray-50 transition-colors cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Import
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={contacts.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 text-sm rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={contacts.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 text-gray-700 text-sm rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-xl hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Contact
+          </button>
+        </div>
+      </div>
+
+      {importMessage && (
+        <div className={`mb-6 p-4 rounded-xl border ${importMessage.isError ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
+          <p className={`text-sm ${importMessage.isError ? 'text-red-700' : 'text-green-800'}`}>{importMessage.text}</p>
+        </div>
+      )}
+
+      {/* Add / edit form */}
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-gray-900">{editingAddress ? 'Edit Contact' : 'New Contact'}</h3>
+            <button
+              type="button"
+              onClick={closeForm}
+              className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label htmlFor="contact-name" className="block text-sm text-gray-700 mb-2">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="contact-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Design team"
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="contact-address" className="block text-sm text-gray-700 mb-2">
+                Wallet Address <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="contact-address"
+                type="text"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                placeholder="0x..."
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="contact-tags" className="block text-sm text-gray-700 mb-2">Tags</label>
+              <input
+                id="contact-tags"
+                type="text"
+                value={form.tags}
+                onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                placeholder="client, reviewer"
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="contact-notes" className="block text-sm text-gray-700 mb-2">Notes</label>
+              <input
+                id="contact-notes"
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                placeholder="Optional"
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          {formError && (
+            <p className="mb-4 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-1 h-1 bg-red-600 rounded-full"></span>
+              {formError}
+            </p>
+          )}
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 bg-gray-100 text-gray-700 text-sm rounded-xl hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-xl hover:bg-blue-700 transition-colors"
+            >
+              Save Contact
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Search */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
+        <div className="relative">
+          <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search by name, address, tag or notes..."
+            className="w-full pl-12 pr-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Contacts */}
+      {filteredContacts.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <BookUser className="w-8 h-8 text-gray-400" />
+          </div>
+          <h3 className="text-gray-900 mb-2">No contacts found</h3>
+          <p className="text-gray-600">
+            {contacts.length === 0
+              ? 'Add contacts or import a JSON/CSV file to label addresses across the app'
+              : 'Try adjusting your search'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs text-gray-600">
+              <tr>
+                <th className="px-4 py-3">Name</th>
+                <th className="px-4 py-3">Address</th>
+                <th className="px-4 py-3">Tags</th>
+                <th className="px-4 py-3">Notes</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredContacts.map(contact => (
+                <tr key={contact.address} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-900">{contact.name}</td>
+                  <td className="px-4 py-3">
+                    <code className="text-xs text-gray-700 break-all">{contact.address}</code>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {contact.tags.map(tag => (
+                        <span key={tag} className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded-lg">{tag}</span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    <p className="line-clamp-2">{contact.notes}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <button
+                        onClick={() => openForm(contact)}
+                        title="Edit"
+                        className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-gray-100 transition-colors"
+                      >
+                        <Pencil className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button
+                        onClick={() => handleRemove(contact)}
+                        title="Remove"
+                        className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-red-50 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
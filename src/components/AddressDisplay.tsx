@@ -0,0 +1,29 @@
+import { useEnsProfile } from '../hooks/useEns';
+import { useContact } from '../hooks/useAddressBook';
+import { formatAddress } from '../utils/web3';
+
+interface AddressDisplayProps {
+  address: string;
+  showAvatar?: boolean;
+  className?: string;
+}
+
+/**
+ * An address shown by its address book name, else its primary ENS name (with avatar), else as 0x1234...5678.
+ * The full address (and ENS name, if overridden by a contact) is always in the tooltip.
+ */
+export default function AddressDisplay({ address, showAvatar = false, className = '' }: AddressDisplayProps) {
+  const { name, avatar } = useEnsProfile(address);
+  const contact = useContact(address);
+  const label = contact?.name ?? name;
+  const title = contact && name ? `${name}\n${address}` : address;
+
+  return (
+    <span title={title} className={`inline-flex items-center gap-1.5 min-w-0 ${className}`}>
+      {showAvatar && avatar && (
+        <img src={avatar} alt="" className="w-5 h-5 rounded-full object-cover flex-shrink-0" />
+      )}
+      <span className={label ? 'truncate' : 'font-mono'}>{label ?? formatAddress(address)}</span>
+    </span>
+  );
+}
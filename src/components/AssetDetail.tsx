@@ -1,15 +1,25 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Database, FileCode, FolderOpen, FileText, Key, Calendar, Users, Send, UserPlus, UserMinus, Download } from 'lucide-react';
+import { ArrowLeft, Database, FileCode, FolderOpen, FileText, Key, Calendar, Users, Send, UserPlus, UserMinus, ListChecks, Download, ExternalLink } from 'lucide-react';
 import { Asset } from '../App';
 import TransferOwnershipModal from './TransferOwnershipModal';
 import GrantAccessModal from './GrantAccessModal';
 import RevokeAccessModal from './RevokeAccessModal';
+import BulkPermissionModal from './BulkPermissionModal';
 import { fetchFromIPFS } from '../utils/ipfs';
-import { logUsage, getUsageLogs } from '../utils/contract';
+import { logUsage } from '../utils/contract';
+import { getSharedWith } from '../utils/permissions';
+import { getUsageLog } from '../utils/usageLogService';
+import { getExplorerUrl } from '../utils/web3';
+import { toRegistryError } from '../utils/errors';
+import { usageMessages, writeFlows } from '../utils/writeFlows';
+import FeePreview from './FeePreview';
+import SimulationNotice from './SimulationNotice';
+import AddressDisplay from './AddressDisplay';
+import { useSimulation } from '../hooks/useSimulation';
+import { useWalletContext } from '../contexts/WalletContext';
 
 interface AssetDetailProps {
   asset: Asset;
-  walletAddress: string;
   onTransferOwnership: (assetId: string, newOwner: string) => void;
   onGrantAccess: (assetId: string, userAddress: string) => void;
   onRevokeAccess: (assetId: string, userAddress: string) => void;
@@ -19,51 +29,66 @@ interface AssetDetailProps {
 
 export default function AssetDetail({
   asset,
-  walletAddress,
   onTransferOwnership,
   onGrantAccess,
   onRevokeAccess,
   onLogUsage,
   onBack
 }: AssetDetailProps) {
+  // Watch mode: walletAddress is viewed, not signed for
+  const { walletAddress, isWatchOnly: readOnly, isWrongNetwork } = useWalletContext();
+  // Writes are signed on the wallet's chain, so none are offered while it is on another one
+  const writeDisabled = readOnly || isWrongNetwork;
   const [showTransferModal, setShowTransferModal] = useState(false);
   const [showGrantModal, setShowGrantModal] = useState(false);
   const [showRevokeModal, setShowRevokeModal] = useState(false);
+  const [showBulkModal, setShowBulkModal] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadError, setDownloadError] = useState<string | null>(null);
-  const [blockchainLogs, setBlockchainLogs] = useState<Array<{
-    user: string;
-    description: string;
-    timestamp: number;
-  }>>([]);
+  const [logMismatches, setLogMismatches] = useState(0);
   const [loadingLogs, setLoadingLogs] = useState(true);
+  const [logsError, setLogsError] = useState<string | null>(null);
+
+  // Same source as every other view: indexed events reconciled against the latest storage read
+  const blockchainLogs = asset.usageLogs;
+
+  // Visitors without a wallet can browse, but every write action is hidden
+  const isConnected = !!walletAddress;
 
   // Use case-insensitive comparison for wallet addresses
-  const isOwner = asset.owner.toLowerCase() === walletAddress.toLowerCase();
+  const isOwner = isConnected && asset.owner.toLowerCase() === walletAddress.toLowerCase();
   const hasAccess = isOwner || asset.permissions.some(addr => 
     addr.toLowerCase() === walletAddress.toLowerCase()
   );
 
-  // Load usage logs from blockchain
+  // Downloading records a paid logUsage transaction first; check it would go through
+  const downloadCalls = isConnected && hasAccess && !writeDisabled && !isNaN(parseInt(asset.id))
+    ? writeFlows.download(parseInt(asset.id), walletAddress, asset.name)
+    : null;
+  const downloadSimulation = useSimulation(isDownloading ? null : downloadCalls);
+
+  // Read contract storage so the usage log (asset.usageLogs) is reconciled against it
   useEffect(() => {
     const loadLogs = async () => {
       try {
         const assetIdNum = parseInt(asset.id);
         if (!isNaN(assetIdNum)) {
           console.log('Loading usage logs from blockchain for asset:', assetIdNum);
-          const logs = await getUsageLogs(assetIdNum);
-          console.log('Loaded blockchain logs:', logs);
-          setBlockchainLogs(logs);
+          const { mismatches } = await getUsageLog(assetIdNum);
+          setLogMismatches(mismatches.length);
+          setLogsError(null);
         }
       } catch (error) {
         console.error('Failed to load blockchain logs:', error);
+        setLogsError(toRegistryError(error).message);
       } finally {
         setLoadingLogs(false);
       }
     };
     
     loadLogs();
-  }, [asset.id]);
+    // Re-reconcile when the live registry reports a new UsageLogged event
+  }, [asset.id, asset.usageLogs.length]);
 
   // Debug logging
   console.log('AssetDetail - Permission Check:', {
@@ -106,20 +131,29 @@ export default function AssetDetail({
       // This ensures the user pays before downloading
       const assetIdNum = parseInt(asset.id);
       if (!isNaN(assetIdNum)) {
-        const usageMsg = `User ${walletAddress} downloaded the asset file "${asset.name}"`;
+        const usageMsg = usageMessages.download(walletAddress, asset.name);
         console.log('Logging usage to blockchain (user must confirm and pay gas)...');
         
         try {
           await logUsage(assetIdNum, usageMsg);
           console.log('✅ Transaction confirmed - Usage logged to blockchain');
-        } catch (logError: any) {
+        } catch (logError) {
           console.error('Failed to log usage to blockchain:', logError);
           // If user rejects transaction or it fails, don't proceed with download
-          setDownloadError(
-            logError.code === 4001 || logError.code === 'ACTION_REJECTED'
-              ? 'Transaction cancelled. You must confirm the transaction to download the asset.'
-              : 'Failed to record download on blockchain. Please try again.'
-          );
+          const error = toRegistryError(logError);
+          switch (error.kind) {
+            case 'user-rejected':
+              setDownloadError('Transaction cancelled. You must confirm the transaction to download the asset.');
+              break;
+            case 'insufficient-funds':
+            case 'wrong-network':
+            case 'contract-revert':
+            case 'rpc-unavailable':
+              setDownloadError(error.message);
+              break;
+            default:
+              setDownloadError('Failed to record download on blockchain. Please try again.');
+          }
           return; // Stop here - no download without payment
         }
       }
@@ -152,10 +186,11 @@ export default function AssetDetail({
       
     } catch (error) {
       console.error('Download error:', error);
+      const registryError = toRegistryError(error);
       setDownloadError(
-        error instanceof Error 
-          ? error.message 
-          : 'Failed to download asset. Make sure the asset has a valid IPFS CID.'
+        registryError.kind === 'ipfs-failure'
+          ? `${registryError.message}. Make sure the asset has a valid IPFS CID.`
+          : registryError.message
       );
     } finally {
       setIsDownloading(false);
@@ -180,8 +215,8 @@ export default function AssetDetail({
     }
   };
 
-  const truncateAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+  const truncateHash = (hash: string) => {
+    return `${hash.slice(0, 10)}...${hash.slice(-8)}`;
   };
 
   const TypeIcon = getTypeIcon(asset.type);
@@ -236,7 +271,7 @@ export default function AssetDetail({
                   <label className="text-sm text-gray-600 mb-1 block">Author</label>
                   <div className="flex items-center gap-2">
                     <Key className="w-4 h-4 text-gray-400" />
-                    <code className="text-sm text-gray-900">{truncateAddress(asset.author)}</code>
+                    <AddressDisplay address={asset.author} showAvatar className="text-sm text-gray-900" />
                   </div>
                 </div>
                 
@@ -244,7 +279,7 @@ export default function AssetDetail({
                   <label className="text-sm text-gray-600 mb-1 block">Current Owner</label>
                   <div className="flex items-center gap-2">
                     <Key className="w-4 h-4 text-gray-400" />
-                    <code className="text-sm text-gray-900">{truncateAddress(asset.owner)}</code>
+                    <AddressDisplay address={asset.owner} showAvatar className="text-sm text-gray-900" />
                   </div>
                 </div>
               </div>
@@ -275,11 +310,11 @@ export default function AssetDetail({
                 <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                   <div className="flex items-center gap-2">
                     <Users className="w-4 h-4 text-gray-400" />
-                    <code className="text-sm text-gray-900">{truncateAddress(permission)}</code>
-                    {permission === asset.owner && (
+                    <AddressDisplay address={permission} showAvatar className="text-sm text-gray-900" />
+                    {permission.toLowerCase() === asset.owner.toLowerCase() && (
                       <span className="text-xs text-green-600">(Owner)</span>
                     )}
-                    {permission === walletAddress && permission !== asset.owner && (
+                    {isConnected && permission.toLowerCase() === walletAddress.toLowerCase() && !isOwner && (
                       <span className="text-xs text-blue-600">(You)</span>
                     )}
                   </div>
@@ -298,6 +333,15 @@ export default function AssetDetail({
                 </span>
               </div>
 
+              {/* A failed read is an error, not a reconciliation result; the event history is still shown */}
+              {logsError && !loadingLogs && (
+                <div className="p-3 mb-3 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-xs text-red-700">
+                    Could not check the usage log against contract storage: {logsError}
+                  </p>
+                </div>
+              )}
+
               {loadingLogs ? (
                 <div className="text-center py-8">
                   <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-3"></div>
@@ -312,25 +356,50 @@ export default function AssetDetail({
                 </div>
               ) : (
                 <div className="space-y-3 max-h-96 overflow-y-auto">
-                  {blockchainLogs.map((log, index) => (
-                    <div key={index} className="p-4 bg-gray-50 rounded-lg border border-gray-100">
-                      <p className="text-gray-900 mb-2">{log.description || 'No description'}</p>
-                      <div className="flex items-center justify-between text-xs text-gray-600">
-                        <div className="flex items-center gap-1">
-                          <Key className="w-3 h-3" />
-                          <span className="font-mono">
-                            {log.user ? `${log.user.slice(0, 6)}...${log.user.slice(-4)}` : 'Unknown'}
-                          </span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <Calendar className="w-3 h-3" />
-                          <span>
-                            {log.timestamp ? new Date(log.timestamp * 1000).toLocaleString() : 'Unknown time'}
-                          </span>
+                  {logMismatches > 0 && (
+                    <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                      <p className="text-xs text-amber-800">
+                        {logMismatches} entr{logMismatches !== 1 ? 'ies' : 'y'} could not be matched between events and contract storage.
+                      </p>
+                    </div>
+                  )}
+                  {blockchainLogs.map((log) => {
+                    const txUrl = log.txHash ? getExplorerUrl('tx', log.txHash) : null;
+                    
+                    return (
+                      <div key={log.id} className="p-4 bg-gray-50 rounded-lg border border-gray-100">
+                        <p className="text-gray-900 mb-2">{log.description || 'No description'}</p>
+                        <div className="flex items-center justify-between text-xs text-gray-600">
+                          <div className="flex items-center gap-1">
+                            <Key className="w-3 h-3" />
+                            {log.user ? <AddressDisplay address={log.user} /> : <span>Unknown</span>}
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <Calendar className="w-3 h-3" />
+                            <span>{log.timestamp || 'Unknown time'}</span>
+                          </div>
                         </div>
+                        {log.txHash && (
+                          <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+                            <span>Block {log.blockNumber}</span>
+                            {txUrl ? (
+                              <a
+                                href={txUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-1 font-mono text-blue-600 hover:text-blue-700 hover:underline"
+                              >
+                                {truncateHash(log.txHash)}
+                                <ExternalLink className="w-3 h-3" />
+                              </a>
+                            ) : (
+                              <span className="font-mono">{truncateHash(log.txHash)}</span>
+                            )}
+                          </div>
+                        )}
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </div>
@@ -348,7 +417,7 @@ export default function AssetDetail({
                 <>
                   <button
                     onClick={handleDownload}
-                    disabled={isDownloading}
+                    disabled={writeDisabled || isDownloading || downloadSimulation.blocked}
                     className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-700 active:bg-blue-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
                   >
                     {isDownloading ? (
@@ -363,6 +432,13 @@ export default function AssetDetail({
                       </>
                     )}
                   </button>
+
+                  {!isDownloading && !writeDisabled && (
+                    <>
+                      <SimulationNotice failure={downloadSimulation.failure} isSimulating={downloadSimulation.isSimulating} />
+                      <FeePreview calls={downloadSimulation.failure ? null : downloadCalls} />
+                    </>
+                  )}
                   
                   {downloadError && (
                     <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -372,8 +448,26 @@ export default function AssetDetail({
                 </>
               )}
               
+              {/* Read-only visitors */}
+              {!isConnected && (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                  <p className="text-sm text-gray-600">
+                    Connect a wallet to download this asset or request access from its owner.
+                  </p>
+                </div>
+              )}
+
+              {/* Watch mode */}
+              {readOnly && (
+                <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg">
+                  <p className="text-sm text-purple-700">
+                    View-only: connect the watched wallet to download or manage this asset.
+                  </p>
+                </div>
+              )}
+
               {/* Request Access Button - For non-owners without access */}
-              {!isOwner && !hasAccess && (
+              {isConnected && !readOnly && !isOwner && !hasAccess && (
                 <button
                   onClick={() => {
                     alert(`To request access to this asset:\n\n1. Copy this asset owner's address: ${asset.owner}\n2. Contact the owner directly\n3. Share your wallet address: ${walletAddress}\n4. Ask them to grant you access using the "Grant Access" button\n\nThe owner will receive your request and can approve it from their dashboard.`);
@@ -390,7 +484,8 @@ export default function AssetDetail({
                 <>
                   <button
                     onClick={() => setShowTransferModal(true)}
-                    className="w-full flex items-center gap-2 px-4 py-3 bg-gray-900 text-white rounded-xl hover:bg-gray-800 transition-colors"
+                    disabled={writeDisabled}
+                    className="w-full flex items-center gap-2 px-4 py-3 bg-gray-900 text-white rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Send className="w-5 h-5" />
                     Transfer Ownership
@@ -398,21 +493,32 @@ export default function AssetDetail({
                   
                   <button
                     onClick={() => setShowGrantModal(true)}
-                    className="w-full flex items-center gap-2 px-4 py-3 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors"
+                    disabled={writeDisabled}
+                    className="w-full flex items-center gap-2 px-4 py-3 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <UserPlus className="w-5 h-5" />
                     Grant Access
                   </button>
                   
-                  {asset.permissions.length > 1 && (
+                  {getSharedWith(asset).length > 0 && (
                     <button
                       onClick={() => setShowRevokeModal(true)}
-                      className="w-full flex items-center gap-2 px-4 py-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors"
+                      disabled={writeDisabled}
+                      className="w-full flex items-center gap-2 px-4 py-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <UserMinus className="w-5 h-5" />
                       Revoke Access
                     </button>
                   )}
+
+                  <button
+                    onClick={() => setShowBulkModal(true)}
+                    disabled={writeDisabled}
+                    className="w-full flex items-center gap-2 px-4 py-3 bg-blue-50 text-blue-700 rounded-xl hover:bg-blue-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ListChecks className="w-5 h-5" />
+                    Bulk Edit Access
+                  </button>
                 </>
               )}
             </div>
@@ -446,11 +552,17 @@ export default function AssetDetail({
       {showRevokeModal && (
         <RevokeAccessModal
           asset={asset}
-          currentUser={walletAddress}
           onClose={() => setShowRevokeModal(false)}
           onRevoke={onRevokeAccess}
         />
       )}
+
+      {showBulkModal && (
+        <BulkPermissionModal
+          asset={asset}
+          onClose={() => setShowBulkModal(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,286 @@
+import { useMemo, useState } from 'react';
+import { X, Users, Upload, Loader2, CheckCircle2, XCircle, Clock, RotateCcw, ExternalLink, SkipForward } from 'lucide-react';
+import { Asset } from '../App';
+import FeePreview from './FeePreview';
+import SimulationNotice from './SimulationNotice';
+import { useSimulation } from '../hooks/useSimulation';
+import { writeFlows } from '../utils/writeFlows';
+import { getExplorerUrl } from '../utils/web3';
+import {
+  parseAddressList,
+  planBulkChange,
+  toBulkItems,
+  type BulkItem,
+  type BulkMode,
+} from '../utils/bulkPermissions';
+import { createWorkflow, workflowDefinitions } from '../utils/workflows';
+import { useWorkflows } from '../hooks/useWorkflows';
+import { useWalletContext } from '../contexts/WalletContext';
+
+interface BulkPermissionModalProps {
+  asset: Asset;
+  onClose: () => void;
+}
+
+export default function BulkPermissionModal({ asset, onClose }: BulkPermissionModalProps) {
+  const { walletAddress } = useWalletContext();
+  const [mode, setMode] = useState<BulkMode>('grant');
+  const [input, setInput] = useState('');
+  const [runId, setRunId] = useState<string | null>(null); // Set once the batch starts
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  // The batch is a workflow run, so it survives a reload and can be resumed from the transaction queue
+  const { workflows, resume } = useWorkflows();
+  const bulkRun = workflows.find((candidate) => candidate.id === runId) ?? null;
+  const items: BulkItem[] | null = bulkRun ? toBulkItems(bulkRun) : null;
+  const isOtherAccount = !!bulkRun && bulkRun.actor.toLowerCase() !== walletAddress.toLowerCase();
+
+  const parsed = useMemo(() => parseAddressList(input), [input]);
+  const plan = useMemo(() => planBulkChange(mode, parsed.addresses, asset), [mode, parsed, asset]);
+
+  const assetIdNum = parseInt(asset.id);
+  const feeCalls = !items && plan.toApply.length > 0 && !isNaN(assetIdNum)
+    ? writeFlows.bulkChange(assetIdNum, walletAddress, mode, plan.toApply)
+    : null;
+  const simulation = useSimulation(feeCalls);
+
+  const failed = items?.filter((item) => item.status === 'failed') ?? [];
+  const completed = items?.filter((item) => item.status === 'done').length ?? 0;
+  const summaryStep = bulkRun?.steps[bulkRun.steps.length - 1];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setInput((current) => (current.trim() ? `${current}\n${text}` : text));
+    } catch (err) {
+      console.error('Error reading address file:', err);
+      setError('Could not read the selected file');
+    }
+  };
+
+  // The address list is frozen when the batch starts; live permission updates must not reshuffle it.
+  // Retrying resumes the run: failed and not-yet-sent addresses go again, then the summary is logged.
+  const run = async (start: () => Promise<unknown>) => {
+    setError('');
+    setIsRunning(true);
+    try {
+      await start();
+    } catch (err: any) {
+      setError(err.message || 'Bulk update failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleStart = () => {
+    if (plan.toApply.length === 0) {
+      setError(mode === 'grant' ? 'No new addresses to grant access to' : 'No current grantees to revoke');
+      return;
+    }
+    const id = createWorkflow(workflowDefinitions.bulkPermissions(assetIdNum, walletAddress, mode, plan.toApply));
+    setRunId(id);
+    run(() => resume(id));
+  };
+
+  const statusIcon = (item: BulkItem) => {
+    switch (item.status) {
+      case 'queued': return <Clock className="w-4 h-4 text-gray-400" />;
+      case 'running': return <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />;
+      case 'done': return <CheckCircle2 className="w-4 h-4 text-green-600" />;
+      case 'failed': return <XCircle className="w-4 h-4 text-red-600" />;
+      case 'skipped': return <SkipForward className="w-4 h-4 text-gray-400" />;
+    }
+  };
+
+  const isGrant = mode === 'grant';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center">
+              <Users className="w-5 h-5 text-white" />
+            </div>
+            <h2 className="text-gray-900">Bulk Edit Access</h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isRunning}
+            className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Asset Info */}
+        <div className="mb-6 p-4 bg-gray-50 rounded-xl">
+          <p className="text-sm text-gray-600 mb-1">Asset Name</p>
+          <p className="text-gray-900">{asset.name}</p>
+        </div>
+
+        {!items ? (
+          <>
+            {/* Mode */}
+            <div className="mb-4 grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-xl">
+              {(['grant', 'revoke'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMode(option)}
+                  className={`px-4 py-2 text-sm rounded-lg transition-colors ${
+                    mode === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {option === 'grant' ? 'Grant access' : 'Revoke access'}
+                </button>
+              ))}
+            </div>
+
+            {/* Addresses */}
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="bulk-addresses" className="block text-sm text-gray-700">
+                  Wallet Addresses
+                </label>
+                <label className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 cursor-pointer">
+                  <Upload className="w-4 h-4" />
+                  Import CSV
+                  <input
+                    type="file"
+                    accept=".csv,.txt,text/csv,text/plain"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleFile(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+              <textarea
+                id="bulk-addresses"
+                value={input}
+                onChange={(e) => {
+                  setInput(e.target.value);
+                  setError('');
+                }}
+                rows={6}
+                placeholder={'One address per line, or comma separated\n0x...\n0x...'}
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            {/* Validation summary */}
+            {input.trim() && (
+              <div className="mb-6 p-4 bg-gray-50 rounded-xl space-y-1 text-sm">
+                <p className="text-gray-900">
+                  {plan.toApply.length} address{plan.toApply.length !== 1 ? 'es' : ''} to {isGrant ? 'grant' : 'revoke'}
+                </p>
+                {plan.skipped.length > 0 && (
+                  <p className="text-gray-600">
+                    {plan.skipped.length} skipped ({Array.from(new Set(plan.skipped.map((s) => s.reason))).join(', ')})
+                  </p>
+                )}
+                {parsed.duplicates.length > 0 && (
+                  <p className="text-gray-600">{parsed.duplicates.length} duplicate{parsed.duplicates.length !== 1 ? 's' : ''} removed</p>
+                )}
+                {parsed.invalid.length > 0 && (
+                  <p className="text-red-600 break-all">
+                    {parsed.invalid.length} invalid: {parsed.invalid.join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <SimulationNotice failure={simulation.failure} isSimulating={simulation.isSimulating} className="mb-4" />
+            <FeePreview calls={simulation.failure ? null : feeCalls} className="mb-6" />
+          </>
+        ) : (
+          <>
+            {/* Progress */}
+            <p className="mb-2 text-sm text-gray-700">
+              {completed} of {items.length} {isGrant ? 'granted' : 'revoked'}
+              {failed.length > 0 && `, ${failed.length} failed`}
+            </p>
+            <ul className="mb-6 divide-y divide-gray-100 border border-gray-200 rounded-xl">
+              {items.map((item) => {
+                const txUrl = item.txHash ? getExplorerUrl('tx', item.txHash) : null;
+                return (
+                  <li key={item.address} className="px-4 py-2 flex items-start gap-2">
+                    <span className="mt-0.5">{statusIcon(item)}</span>
+                    <div className="flex-1 min-w-0">
+                      <code className="text-xs text-gray-900 break-all">{item.address}</code>
+                      {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                    </div>
+                    {txUrl && (
+                      <a href={txUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-700">
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            {summaryStep?.status === 'failed' && (
+              <p className="mb-6 -mt-4 text-xs text-red-600">Summary log entry failed: {summaryStep.error}</p>
+            )}
+          </>
+        )}
+
+        {error && (
+          <p className="mb-4 text-sm text-red-600 flex items-center gap-1">
+            <span className="w-1 h-1 bg-red-600 rounded-full"></span>
+            {error}
+          </p>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isRunning}
+            className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {items && !isRunning ? 'Close' : 'Cancel'}
+          </button>
+          {!items ? (
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={plan.toApply.length === 0 || simulation.blocked}
+              className={`flex-1 px-4 py-3 text-white rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                isGrant ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+              }`}
+            >
+              {isGrant ? 'Grant' : 'Revoke'} {plan.toApply.length || ''}
+            </button>
+          ) : isRunning ? (
+            <button
+              type="button"
+              disabled
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-xl opacity-50 cursor-not-allowed"
+            >
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Processing...
+            </button>
+          ) : bulkRun && bulkRun.status !== 'completed' ? (
+            <button
+              type="button"
+              onClick={() => run(() => resume(bulkRun.id))}
+              disabled={isOtherAccount}
+              title={isOtherAccount ? 'Switch back to the account that started this batch' : undefined}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RotateCcw className="w-5 h-5" />
+              {failed.length > 0 ? `Retry ${failed.length} failed` : 'Continue'}
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { BookUser } from 'lucide-react';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { searchContacts } from '../utils/addressBook';
+import { formatAddress } from '../utils/web3';
+
+interface ContactSuggestionsProps {
+  query: string;
+  open: boolean;
+  onSelect: (address: string) => void;
+  exclude?: string[]; // Addresses that are not valid choices here (e.g. current grantees)
+  className?: string;
+}
+
+/**
+ * Address book matches for a recipient input, shown as a dropdown below it.
+ * The parent must be positioned (relative) and close it on blur.
+ */
+export default function ContactSuggestions({ query, open, onSelect, exclude = [], className = '' }: ContactSuggestionsProps) {
+  // Subscribe so the list follows edits made while the modal is open
+  useAddressBook();
+
+  const excluded = new Set(exclude.map((address) => address.toLowerCase()));
+  const matches = searchContacts(query, 5).filter((contact) => !excluded.has(contact.address.toLowerCase()));
+  const isExactMatch = matches.some((contact) => contact.address.toLowerCase() === query.trim().toLowerCase());
+
+  if (!open || matches.length === 0 || isExactMatch) {
+    return null;
+  }
+
+  return (
+    <ul className={`absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-xl shadow-lg overflow-hidden z-10 ${className}`}>
+      {matches.map((contact) => (
+        <li key={contact.address}>
+          <button
+            type="button"
+            // Keep focus on the input so its blur does not close the list before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(contact.address)}
+            className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-gray-50 transition-colors"
+          >
+            <BookUser className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-gray-900 truncate">{contact.name}</p>
+              <p className="text-xs text-gray-500 font-mono">{formatAddress(contact.address)}</p>
+            </div>
+            {contact.tags.length > 0 && (
+              <span className="text-xs text-gray-500 truncate max-w-[35%]">{contact.tags.join(', ')}</span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,13 +1,17 @@
 import { useState } from 'react';
-import { Database, FileCode, FolderOpen, FileText, Users, Calendar, Eye, Send, Key, UserPlus, UserMinus } from 'lucide-react';
+import { Database, FileCode, FolderOpen, FileText, Users, Calendar, Eye, Send, Key, UserPlus, UserMinus, ListChecks } from 'lucide-react';
 import { Asset } from '../App';
+import AddressDisplay from './AddressDisplay';
 import TransferOwnershipModal from './TransferOwnershipModal';
 import GrantAccessModal from './GrantAccessModal';
 import RevokeAccessModal from './RevokeAccessModal';
+import BulkPermissionModal from './BulkPermissionModal';
+import { getSharedWith } from '../utils/permissions';
+import { useWalletContext } from '../contexts/WalletContext';
 
 interface DashboardProps {
   assets: Asset[];
-  walletAddress: string;
+  sharedAssets: Asset[]; // Owned by someone else, readable by this wallet
   onViewAsset: (asset: Asset) => void;
   onTransferOwnership: (assetId: string, newOwner: string) => void;
   onGrantAccess: (assetId: string, userAddress: string) => void;
@@ -16,15 +20,19 @@ interface DashboardProps {
 
 export default function Dashboard({ 
   assets, 
-  walletAddress, 
+  sharedAssets,
   onViewAsset,
   onTransferOwnership,
   onGrantAccess,
   onRevokeAccess
 }: DashboardProps) {
+  // Watch mode: browse without write controls
+  const { walletAddress, isWatchOnly: readOnly, isWrongNetwork } = useWalletContext();
+  const writeDisabled = readOnly || isWrongNetwork;
   const [selectedAssetForTransfer, setSelectedAssetForTransfer] = useState<Asset | null>(null);
   const [selectedAssetForGrant, setSelectedAssetForGrant] = useState<Asset | null>(null);
   const [selectedAssetForRevoke, setSelectedAssetForRevoke] = useState<Asset | null>(null);
+  const [selectedAssetForBulk, setSelectedAssetForBulk] = useState<Asset | null>(null);
 
   // Use case-insensitive comparison for wallet addresses
   const myAssets = assets.filter(asset => 
@@ -56,16 +64,19 @@ export default function Dashboard({
     }
   };
 
-  const truncateAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
-  };
+
+  const writeTitle = readOnly
+    ? 'View-only: connect this wallet to make changes'
+    : isWrongNetwork ? 'Switch your wallet to the right network to make changes' : undefined;
 
   return (
     <div className="p-8">
       {/* Header */}
       <div className="mb-8">
         <h1 className="text-gray-900 mb-2">My Assets</h1>
-        <p className="text-gray-600">Manage and monitor your digital assets</p>
+        <p className="text-gray-600">
+          {readOnly ? <>Viewing <AddressDisplay address={walletAddress} /> - write actions are disabled</> : 'Manage and monitor your digital assets'}
+        </p>
       </div>
 
       {/* Stats */}
@@ -108,7 +119,7 @@ export default function Dashboard({
             </div>
           </div>
           <p className="text-gray-900">
-            {myAssets.reduce((acc, asset) => acc + (asset.permissions.length - 1), 0)} users
+            {myAssets.reduce((acc, asset) => acc + getSharedWith(asset).length, 0)} users
           </p>
         </div>
       </div>
@@ -151,7 +162,7 @@ export default function Dashboard({
                 <div className="space-y-2 mb-4 pb-4 border-b border-gray-100">
                   <div className="flex items-center gap-2 text-xs text-gray-600">
                     <Key className="w-4 h-4" />
-                    <span>Author: {truncateAddress(asset.author)}</span>
+                    <span>Author:</span> <AddressDisplay address={asset.author} />
                   </div>
                   <div className="flex items-center gap-2 text-xs text-gray-600">
                     <Calendar className="w-4 h-4" />
@@ -174,27 +185,42 @@ export default function Dashboard({
                   </button>
                   <button
                     onClick={() => setSelectedAssetForTransfer(asset)}
-                    className="flex items-center gap-1.5 px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors"
+                    disabled={writeDisabled}
+                    title={writeTitle}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Send className="w-4 h-4" />
                     Transfer
                   </button>
                   <button
                     onClick={() => setSelectedAssetForGrant(asset)}
-                    className="flex items-center gap-1.5 px-3 py-2 bg-green-50 text-green-700 text-sm rounded-lg hover:bg-green-100 transition-colors"
+                    disabled={writeDisabled}
+                    title={writeTitle}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-green-50 text-green-700 text-sm rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <UserPlus className="w-4 h-4" />
                     Grant
                   </button>
-                  {asset.permissions.length > 1 && (
+                  {getSharedWith(asset).length > 0 && (
                     <button
                       onClick={() => setSelectedAssetForRevoke(asset)}
-                      className="flex items-center gap-1.5 px-3 py-2 bg-red-50 text-red-700 text-sm rounded-lg hover:bg-red-100 transition-colors"
+                      disabled={writeDisabled}
+                      title={writeTitle}
+                      className="flex items-center gap-1.5 px-3 py-2 bg-red-50 text-red-700 text-sm rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <UserMinus className="w-4 h-4" />
                       Revoke
                     </button>
                   )}
+                  <button
+                    onClick={() => setSelectedAssetForBulk(asset)}
+                    disabled={writeDisabled}
+                    title={writeTitle}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-blue-50 text-blue-700 text-sm rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ListChecks className="w-4 h-4" />
+                    Bulk
+                  </button>
                 </div>
               </div>
             );
@@ -202,6 +228,40 @@ export default function Dashboard({
         </div>
       )}
 
+      {/* Shared With This Wallet */}
+      {sharedAssets.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-gray-900 mb-4">Shared With {readOnly ? 'This Address' : 'Me'}</h2>
+          <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+            {sharedAssets.map((asset) => {
+              const TypeIcon = getTypeIcon(asset.type);
+
+              return (
+                <div key={asset.id} className="flex items-center gap-4 p-4">
+                  <div className="w-10 h-10 bg-gradient-to-br from-blue-50 to-purple-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <TypeIcon className="w-5 h-5 text-blue-600" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-900 truncate">{asset.name}</p>
+                    <p className="text-xs text-gray-600 flex items-center gap-1">Owner: <AddressDisplay address={asset.owner} /></p>
+                  </div>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-lg text-xs border ${getTypeBadgeColor(asset.type)}`}>
+                    {asset.type}
+                  </span>
+                  <button
+                    onClick={() => onViewAsset(asset)}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <Eye className="w-4 h-4" />
+                    View
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Modals */}
       {selectedAssetForTransfer && (
         <TransferOwnershipModal
@@ -222,11 +282,18 @@ export default function Dashboard({
       {selectedAssetForRevoke && (
         <RevokeAccessModal
           asset={selectedAssetForRevoke}
-          currentUser={walletAddress}
           onClose={() => setSelectedAssetForRevoke(null)}
           onRevoke={onRevokeAccess}
         />
       )}
+
+      {/* Looked up by id so the modal sees live permission updates */}
+      {selectedAssetForBulk && (
+        <BulkPermissionModal
+          asset={assets.find(a => a.id === selectedAssetForBulk.id) ?? selectedAssetForBulk}
+          onClose={() => setSelectedAssetForBulk(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,70 @@
+import { Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface EnsResolutionNoticeProps {
+  name: string;
+  isResolving: boolean;
+  address: string | null; // null once resolved means the name has no address
+  failed?: boolean; // The lookup itself failed (network error), so the name may still exist
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Shows what an ENS name resolved to and asks the user to confirm the full address before it is used
+ */
+export default function EnsResolutionNotice({
+  name,
+  isResolving,
+  address,
+  failed = false,
+  confirmed,
+  onConfirmedChange,
+  className = '',
+}: EnsResolutionNoticeProps) {
+  if (isResolving) {
+    return (
+      <p className={`flex items-center gap-2 text-sm text-gray-600 ${className}`}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Resolving {name}...
+      </p>
+    );
+  }
+
+  if (failed) {
+    return (
+      <p className={`flex items-center gap-2 text-sm text-red-600 ${className}`}>
+        <AlertCircle className="w-4 h-4" />
+        Could not resolve {name} right now, please try again
+      </p>
+    );
+  }
+
+  if (!address) {
+    return (
+      <p className={`flex items-center gap-2 text-sm text-red-600 ${className}`}>
+        <AlertCircle className="w-4 h-4" />
+        {name} does not resolve to an address
+      </p>
+    );
+  }
+
+  return (
+    <div className={`p-3 bg-blue-50 border border-blue-200 rounded-xl ${className}`}>
+      <p className="flex items-center gap-2 text-sm text-blue-900 mb-1">
+        <CheckCircle2 className="w-4 h-4" />
+        {name} resolves to
+      </p>
+      <code className="block text-xs text-gray-900 break-all mb-2">{address}</code>
+      <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={confirmed}
+          onChange={(e) => onConfirmedChange(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        This is the right address
+      </label>
+    </div>
+  );
+}
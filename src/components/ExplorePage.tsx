@@ -1,15 +1,17 @@
 import { useState } from 'react';
 import { Database, FileCode, FolderOpen, FileText, Key, Calendar, Users, Eye, Search, Filter } from 'lucide-react';
 import { Asset } from '../App';
+import AddressDisplay from './AddressDisplay';
+import { useWalletContext } from '../contexts/WalletContext';
 
 interface ExplorePageProps {
   assets: Asset[];
-  walletAddress: string;
   onViewAsset: (asset: Asset) => void;
   onLogUsage: (assetId: string, description: string) => void;
 }
 
-export default function ExplorePage({ assets, walletAddress, onViewAsset, onLogUsage }: ExplorePageProps) {
+export default function ExplorePage({ assets, onViewAsset, onLogUsage }: ExplorePageProps) {
+  const { walletAddress } = useWalletContext();
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<Asset['type'] | 'all'>('all');
 
@@ -31,9 +33,6 @@ export default function ExplorePage({ assets, walletAddress, onViewAsset, onLogU
     }
   };
 
-  const truncateAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
-  };
 
   // Filter assets
   const filteredAssets = assets.filter(asset => {
@@ -149,11 +148,11 @@ export default function ExplorePage({ assets, walletAddress, onViewAsset, onLogU
                 <div className="space-y-2 mb-4 pb-4 border-b border-gray-100">
                   <div className="flex items-center gap-2 text-xs text-gray-600">
                     <Key className="w-4 h-4" />
-                    <span>Author: {truncateAddress(asset.author)}</span>
+                    <span>Author:</span> <AddressDisplay address={asset.author} />
                   </div>
                   <div className="flex items-center gap-2 text-xs text-gray-600">
                     <Key className="w-4 h-4" />
-                    <span>Owner: {truncateAddress(asset.owner)}</span>
+                    <span>Owner:</span> <AddressDisplay address={asset.owner} />
                   </div>
                   <div className="flex items-center gap-2 text-xs text-gray-600">
                     <Calendar className="w-4 h-4" />
@@ -180,7 +179,9 @@ export default function ExplorePage({ assets, walletAddress, onViewAsset, onLogU
                 {!hasAccess && (
                   <div className="mt-3 p-2 bg-amber-50 border border-amber-100 rounded-lg">
                     <p className="text-xs text-amber-800 text-center">
-                      Request access from owner to use this asset
+                      {walletAddress
+                        ? 'Request access from owner to use this asset'
+                        : 'Connect a wallet to request access to this asset'}
                     </p>
                   </div>
                 )}
@@ -0,0 +1,65 @@
+import { Fuel, AlertTriangle, Loader2 } from 'lucide-react';
+import { useFeeEstimate } from '../hooks/useFeeEstimate';
+import { formatCost, formatGwei } from '../utils/gas';
+import type { WriteCall } from '../utils/writeFlows';
+
+interface FeePreviewProps {
+  calls: WriteCall[] | null; // null while the form is incomplete
+  className?: string;
+}
+
+export default function FeePreview({ calls, className = '' }: FeePreviewProps) {
+  const { estimate, isEstimating, error } = useFeeEstimate(calls);
+
+  if (!calls) return null;
+
+  if (isEstimating) {
+    return (
+      <div className={`flex items-center gap-2 text-sm text-gray-500 ${className}`}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Estimating network fee...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={`p-3 bg-amber-50 border border-amber-200 rounded-xl flex gap-2 ${className}`}>
+        <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
+        <p className="text-sm text-amber-900">Could not estimate the network fee: {error}</p>
+      </div>
+    );
+  }
+
+  if (!estimate) return null;
+
+  const pricing = estimate.baseFeePerGas !== null && estimate.maxPriorityFeePerGas !== null
+    ? `base ${formatGwei(estimate.baseFeePerGas)} + tip ${formatGwei(estimate.maxPriorityFeePerGas)}`
+    : estimate.gasPrice !== null
+      ? `gas price ${formatGwei(estimate.gasPrice)}`
+      : null;
+
+  return (
+    <div className={`p-3 rounded-xl border ${estimate.insufficientFunds ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'} ${className}`}>
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <Fuel className="w-4 h-4 text-gray-500" />
+          Estimated fee
+          {estimate.transactionCount > 1 && (
+            <span className="text-xs text-gray-500">({estimate.transactionCount} transactions)</span>
+          )}
+        </div>
+        <div className="text-sm text-gray-900">~{formatCost(estimate.expectedCost)}</div>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {estimate.gasLimit.toLocaleString()} gas{pricing && ` · ${pricing}`} · up to {formatCost(estimate.maxCost)}
+      </p>
+      {estimate.insufficientFunds && (
+        <p className="text-xs text-red-700 mt-2 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          Your balance ({formatCost(estimate.balance)}) may not cover this fee.
+        </p>
+      )}
+    </div>
+  );
+}
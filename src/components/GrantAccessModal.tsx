@@ -1,6 +1,14 @@
 import { useState } from 'react';
 import { X, UserPlus, Loader2 } from 'lucide-react';
 import { Asset } from '../App';
+import FeePreview from './FeePreview';
+import SimulationNotice from './SimulationNotice';
+import { useSimulation } from '../hooks/useSimulation';
+import { writeFlows } from '../utils/writeFlows';
+import { useWalletContext } from '../contexts/WalletContext';
+import { useEnsInput } from '../hooks/useEns';
+import EnsResolutionNotice from './EnsResolutionNotice';
+import ContactSuggestions from './ContactSuggestions';
 
 interface GrantAccessModalProps {
   asset: Asset;
@@ -9,37 +17,63 @@ interface GrantAccessModalProps {
 }
 
 export default function GrantAccessModal({ asset, onClose, onGrant }: GrantAccessModalProps) {
+  const { walletAddress } = useWalletContext();
   const [userAddress, setUserAddress] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmedAddress, setConfirmedAddress] = useState<string | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
 
-  const validateAddress = (address: string): boolean => {
-    const regex = /^0x[a-fA-F0-9]{40}$/;
-    return regex.test(address);
-  };
+  // Accepts an address or an ENS name; a resolved name must be confirmed before it is used
+  const recipient = useEnsInput(userAddress);
+  const targetAddress = recipient.address;
+  const isConfirmed = !recipient.isName || (!!targetAddress && confirmedAddress === targetAddress);
+
+  // Preview the fee once the input would pass validation
+  const assetIdNum = parseInt(asset.id);
+  const feeCalls = targetAddress && !asset.permissions.some(p => p.toLowerCase() === targetAddress.toLowerCase()) && !isNaN(assetIdNum)
+    ? writeFlows.grantAccess(assetIdNum, walletAddress, targetAddress)
+    : null;
+  const simulation = useSimulation(feeCalls);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
     if (!userAddress.trim()) {
-      setError('Please enter a wallet address');
+      setError('Please enter a wallet address or ENS name');
       return;
     }
 
-    if (!validateAddress(userAddress)) {
-      setError('Invalid wallet address format');
+    if (recipient.isResolving) {
+      setError('Still resolving the ENS name, please wait');
       return;
     }
 
-    if (asset.permissions.some(p => p.toLowerCase() === userAddress.toLowerCase())) {
+    if (!targetAddress) {
+      setError(
+        recipient.lookupFailed
+          ? 'Could not resolve the ENS name, please try again'
+          : recipient.isName
+            ? 'This ENS name does not resolve to an address'
+            : 'Invalid wallet address format'
+      );
+      return;
+    }
+
+    if (!isConfirmed) {
+      setError('Please confirm the resolved address');
+      return;
+    }
+
+    if (asset.permissions.some(p => p.toLowerCase() === targetAddress.toLowerCase())) {
       setError('This user already has access');
       return;
     }
 
     setIsSubmitting(true);
     try {
-      await onGrant(asset.id, userAddress);
+      await onGrant(asset.id, targetAddress);
       onClose();
     } catch (error) {
       setError('Failed to grant access');
@@ -83,9 +117,9 @@ export default function GrantAccessModal({ asset, onClose, onGrant }: GrantAcces
 
         {/* Form */}
         <form onSubmit={handleSubmit}>
-          <div className="mb-6">
+          <div className="mb-6 relative">
             <label htmlFor="user-address" className="block text-sm text-gray-700 mb-2">
-              User Wallet Address <span className="text-red-500">*</span>
+              User Wallet Address or ENS Name <span className="text-red-500">*</span>
             </label>
             <input
               id="user-address"
@@ -94,10 +128,34 @@ export default function GrantAccessModal({ asset, onClose, onGrant }: GrantAcces
               onChange={(e) => {
                 setUserAddress(e.target.value);
                 setError('');
+                setShowSuggestions(true);
               }}
-              placeholder="0x..."
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              autoComplete="off"
+              placeholder="0x..., name.eth or a contact"
               className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
             />
+            <ContactSuggestions
+              query={userAddress}
+              open={showSuggestions}
+              exclude={asset.permissions}
+              onSelect={(address) => {
+                setUserAddress(address);
+                setShowSuggestions(false);
+              }}
+            />
+            {recipient.isName && (
+              <EnsResolutionNotice
+                name={userAddress.trim()}
+                isResolving={recipient.isResolving}
+                address={targetAddress}
+                failed={recipient.lookupFailed}
+                confirmed={isConfirmed}
+                onConfirmedChange={(confirmed) => setConfirmedAddress(confirmed ? targetAddress : null)}
+                className="mt-2"
+              />
+            )}
             {error && (
               <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
                 <span className="w-1 h-1 bg-red-600 rounded-full"></span>
@@ -106,6 +164,9 @@ export default function GrantAccessModal({ asset, onClose, onGrant }: GrantAcces
             )}
           </div>
 
+          <SimulationNotice failure={simulation.failure} isSimulating={simulation.isSimulating} className="mb-4" />
+          <FeePreview calls={simulation.failure ? null : feeCalls} className="mb-6" />
+
           {/* Actions */}
           <div className="flex gap-3">
             <button
@@ -118,7 +179,7 @@ export default function GrantAccessModal({ asset, onClose, onGrant }: GrantAcces
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || simulation.blocked}
               className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isSubmitting ? (
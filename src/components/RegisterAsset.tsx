@@ -3,7 +3,12 @@ import { ArrowLeft, Upload, Database, FileCode, FolderOpen, FileText } from 'luc
 import { Asset } from '../App';
 import { uploadToPinata } from '../utils/ipfs';
 import { registerAsset } from '../utils/contract';
-import TransactionFeedback from './TransactionFeedback';
+import { getEthereum, getTargetNetwork, isOnNetwork } from '../utils/web3';
+import { writeFlows } from '../utils/writeFlows';
+import FeePreview from './FeePreview';
+import SimulationNotice from './SimulationNotice';
+import { useSimulation } from '../hooks/useSimulation';
+import { useWalletContext } from '../contexts/WalletContext';
 
 interface RegisterAssetProps {
   onSubmit: () => void; // Changed: just notify completion, no asset data
@@ -11,6 +16,7 @@ interface RegisterAssetProps {
 }
 
 export default function RegisterAsset({ onSubmit, onCancel }: RegisterAssetProps) {
+  const { isWrongNetwork } = useWalletContext();
   const [formData, setFormData] = useState({
     name: '',
     type: 'dataset' as Asset['type'],
@@ -19,11 +25,16 @@ export default function RegisterAsset({ onSubmit, onCancel }: RegisterAssetProps
   const [file, setFile] = useState<File | null>(null);
   const [fileName, setFileName] = useState('');
   
-  // Transaction states
-  const [txStatus, setTxStatus] = useState<'idle' | 'uploading' | 'confirming' | 'success' | 'error'>('idle');
-  const [txHash, setTxHash] = useState('');
+  // Form progress; the transaction itself is reported by the global TransactionQueue
+  const [stage, setStage] = useState<'idle' | 'uploading' | 'registering'>('idle');
   const [error, setError] = useState('');
 
+  // The CID is not known before upload; a same-length placeholder is used for the estimate and simulation
+  const registerCalls = formData.name.trim() && stage === 'idle'
+    ? writeFlows.registerAsset(formData.name, formData.type, formData.description)
+    : null;
+  const simulation = useSimulation(registerCalls);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -40,31 +51,29 @@ export default function RegisterAsset({ onSubmit, onCancel }: RegisterAssetProps
     setError('');
     
     try {
-      // Check if connected to Sepolia testnet
-      if (window.ethereum) {
-        const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-        console.log('Current chain ID:', chainId);
+      // Check if connected to the target network
+      const ethereum = getEthereum();
+      if (ethereum && !(await isOnNetwork())) {
+        const chainId = await ethereum.request({ method: 'eth_chainId' });
+        const network = getTargetNetwork();
+        console.log('Current chain ID:', chainId, 'expected:', network.chainId);
         
-        // Sepolia chainId is 0xaa36a7 (11155111 in decimal)
-        if (chainId !== '0xaa36a7') {
-          setError(
-            '⚠️ Wrong Network! Please switch MetaMask to "Sepolia Test Network". ' +
-            'You are currently on network: ' + chainId + '. ' +
-            'Get free Sepolia ETH from: https://sepoliafaucet.com/'
-          );
-          setTxStatus('error');
-          return;
-        }
+        setError(
+          `⚠️ Wrong Network! Please switch your wallet to "${network.chainName}". ` +
+          'You are currently on network: ' + chainId + '.' +
+          (network.faucetUrl ? ` Get free ${network.nativeCurrency.symbol} from: ${network.faucetUrl}` : '')
+        );
+        return;
       }
       
       // Step 1: Upload file to IPFS
-      setTxStatus('uploading');
+      setStage('uploading');
       console.log('Uploading file to IPFS...');
       const assetUploadResult = await uploadToPinata(file);
       console.log('File uploaded to IPFS, CID:', assetUploadResult.cid);
 
       // Step 2: Register on blockchain
-      setTxStatus('confirming');
+      setStage('registering');
       console.log('Registering asset on blockchain...');
       const result = await registerAsset(
         formData.name,
@@ -74,18 +83,12 @@ export default function RegisterAsset({ onSubmit, onCancel }: RegisterAssetProps
       );
       
       console.log('Asset registered! Asset ID:', result.assetId, 'TX:', result.txHash);
-      setTxHash(result.txHash);
-      setTxStatus('success');
-
-      // Notify parent after delay
-      setTimeout(() => {
-        onSubmit();
-      }, 2000);
+      onSubmit();
 
     } catch (err) {
       console.error('Registration error:', err);
       setError(err instanceof Error ? err.message : 'Registration failed');
-      setTxStatus('error');
+      setStage('idle');
     }
   };
 
@@ -249,17 +252,27 @@ export default function RegisterAsset({ onSubmit, onCancel }: RegisterAssetProps
             </p>
           </div>
 
+          <SimulationNotice failure={simulation.failure} isSimulating={simulation.isSimulating} className="mb-4" />
+          <FeePreview calls={simulation.failure ? null : registerCalls} className="mb-6" />
+
+          {error && (
+            <p className="mb-6 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-1 h-1 bg-red-600 rounded-full"></span>
+              {error}
+            </p>
+          )}
+
           {/* Actions */}
           <div className="flex gap-3">
             <button
               type="submit"
-              disabled={txStatus !== 'idle'}
+              disabled={stage !== 'idle' || simulation.blocked || isWrongNetwork}
               className="flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-6 rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {(txStatus === 'uploading' || txStatus === 'confirming') ? (
+              {stage !== 'idle' ? (
                 <>
                   <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  {txStatus === 'uploading' ? 'Uploading...' : 'Registering...'}
+                  {stage === 'uploading' ? 'Uploading...' : 'Registering...'}
                 </>
               ) : (
                 'Register Asset'
@@ -268,7 +281,7 @@ export default function RegisterAsset({ onSubmit, onCancel }: RegisterAssetProps
             <button
               type="button"
               onClick={onCancel}
-              disabled={txStatus !== 'idle'}
+              disabled={stage !== 'idle'}
               className="px-6 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Cancel
@@ -1,25 +1,67 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { X, UserMinus, AlertTriangle, Loader2 } from 'lucide-react';
 import { Asset } from '../App';
+import AddressDisplay from './AddressDisplay';
+import SimulationNotice from './SimulationNotice';
+import { getSharedWith, verifyPermissions, PermissionMismatch } from '../utils/permissions';
+import { writeFlows } from '../utils/writeFlows';
+import { useSimulation } from '../hooks/useSimulation';
+import { useWalletContext } from '../contexts/WalletContext';
+import { useAddressBook } from '../hooks/useAddressBook';
 
 interface RevokeAccessModalProps {
   asset: Asset;
-  currentUser: string;
   onClose: () => void;
   onRevoke: (assetId: string, userAddress: string) => void;
 }
 
-export default function RevokeAccessModal({ asset, currentUser, onClose, onRevoke }: RevokeAccessModalProps) {
+export default function RevokeAccessModal({ asset, onClose, onRevoke }: RevokeAccessModalProps) {
+  const { walletAddress: currentUser } = useWalletContext();
   const [selectedUser, setSelectedUser] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [filter, setFilter] = useState('');
+  const { contacts } = useAddressBook();
+
+  const [mismatches, setMismatches] = useState<PermissionMismatch[]>([]);
 
   // Filter out the owner from the list
-  const otherUsers = asset.permissions.filter(p => p !== asset.owner);
+  const otherUsers = getSharedWith(asset);
 
-  const truncateAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
-  };
+  // Spot-check the replayed grantees against hasPermission on-chain
+  useEffect(() => {
+    const assetIdNum = parseInt(asset.id);
+    if (isNaN(assetIdNum)) return;
+
+    let cancelled = false;
+    verifyPermissions(assetIdNum, { owner: asset.owner, grantees: otherUsers })
+      .then((result) => {
+        if (!cancelled) setMismatches(result);
+      })
+      .catch((err) => console.warn('Could not verify permissions on-chain:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [asset.id, asset.owner, asset.permissions.join(',')]);
+
+  // Check the selected revocation against the latest block before it can be submitted
+  const assetIdNum = parseInt(asset.id);
+  const simulation = useSimulation(
+    selectedUser && !isNaN(assetIdNum) ? writeFlows.revokeAccess(assetIdNum, currentUser, selectedUser) : null
+  );
+
+  // Narrow the list by address or by the contact's name or tags
+  const query = filter.trim().toLowerCase();
+  const visibleUsers = otherUsers.filter((user) => {
+    if (!query) return true;
+    const contact = contacts.find(c => c.address.toLowerCase() === user.toLowerCase());
+    return user.toLowerCase().includes(query) ||
+      !!contact && (contact.name.toLowerCase().includes(query) || contact.tags.some(tag => tag.startsWith(query)));
+  });
+
+  const isDeniedOnChain = (user: string) =>
+    mismatches.some(m => m.address === user.toLowerCase() && !m.actual);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -30,7 +72,7 @@ export default function RevokeAccessModal({ asset, currentUser, onClose, onRevok
       return;
     }
 
-    if (selectedUser === asset.owner) {
+    if (selectedUser.toLowerCase() === asset.owner.toLowerCase()) {
       setError('Cannot revoke access from the owner');
       return;
     }
@@ -81,6 +123,16 @@ export default function RevokeAccessModal({ asset, currentUser, onClose, onRevok
           </div>
         </div>
 
+        {/* Event history disagrees with on-chain state */}
+        {mismatches.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl">
+            <p className="text-sm text-amber-900">
+              {mismatches.length} address{mismatches.length !== 1 ? 'es' : ''} in this list
+              {mismatches.length !== 1 ? ' differ' : ' differs'} from the on-chain permission check. The list may be out of date.
+            </p>
+          </div>
+        )}
+
         {/* Form */}
         <form onSubmit={handleSubmit}>
           {otherUsers.length === 0 ? (
@@ -92,8 +144,18 @@ export default function RevokeAccessModal({ asset, currentUser, onClose, onRevok
               <label className="block text-sm text-gray-700 mb-3">
                 Select User to Revoke <span className="text-red-500">*</span>
               </label>
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter by contact name, tag or address"
+                className="w-full mb-3 px-4 py-2 text-sm bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
               <div className="space-y-2 max-h-64 overflow-y-auto">
-                {otherUsers.map((user) => (
+                {visibleUsers.length === 0 && (
+                  <p className="p-3 text-sm text-gray-600 text-center">No users match this filter.</p>
+                )}
+                {visibleUsers.map((user) => (
                   <label
                     key={user}
                     className={`flex items-center gap-3 p-3 border-2 rounded-xl cursor-pointer transition-all ${
@@ -114,10 +176,13 @@ export default function RevokeAccessModal({ asset, currentUser, onClose, onRevok
                       className="w-4 h-4 text-red-600"
                     />
                     <div className="flex-1">
-                      <code className="text-sm text-gray-900">{truncateAddress(user)}</code>
-                      {user === currentUser && (
+                      <AddressDisplay address={user} showAvatar className="text-sm text-gray-900" />
+                      {user.toLowerCase() === currentUser.toLowerCase() && (
                         <span className="ml-2 text-xs text-blue-600">(You)</span>
                       )}
+                      {isDeniedOnChain(user) && (
+                        <span className="ml-2 text-xs text-amber-600">(no access on-chain)</span>
+                      )}
                     </div>
                   </label>
                 ))}
@@ -131,6 +196,8 @@ export default function RevokeAccessModal({ asset, currentUser, onClose, onRevok
             </div>
           )}
 
+          <SimulationNotice failure={simulation.failure} isSimulating={simulation.isSimulating} className="mb-6" />
+
           {/* Actions */}
           <div className="flex gap-3">
             <button
@@ -144,7 +211,7 @@ export default function RevokeAccessModal({ asset, currentUser, onClose, onRevok
             {otherUsers.length > 0 && (
               <button
                 type="submit"
-                disabled={isSubmitting}
+                disabled={isSubmitting || simulation.blocked}
                 className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isSubmitting ? (
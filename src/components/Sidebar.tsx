@@ -1,22 +1,36 @@
-import { Home, Plus, Compass, LogOut, Wallet } from 'lucide-react';
+import { Home, Plus, Compass, History, BookUser, LogOut, LogIn, Wallet, Eye, ShieldCheck, PenLine, FlaskConical } from 'lucide-react';
+import AddressDisplay from './AddressDisplay';
+import { useSession } from '../hooks/useSession';
+import { useWalletContext } from '../contexts/WalletContext';
+import { useDevSigner } from '../hooks/useDevSigner';
+import { DEV_SIGNER_RDNS } from '../utils/devSigner';
+import { formatAddress } from '../utils/web3';
+import type { AppView } from '../utils/walletSession';
 
 interface SidebarProps {
-  currentView: 'dashboard' | 'register' | 'detail' | 'explore';
-  onNavigate: (view: 'dashboard' | 'register' | 'detail' | 'explore') => void;
-  walletAddress: string;
+  currentView: AppView;
+  onNavigate: (view: AppView) => void;
   onDisconnect: () => void;
+  onConnect?: () => void; // Shown when browsing without a wallet
 }
 
-export default function Sidebar({ currentView, onNavigate, walletAddress, onDisconnect }: SidebarProps) {
-  const truncateAddress = (address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
-  };
+export default function Sidebar({ currentView, onNavigate, onDisconnect, onConnect }: SidebarProps) {
+  const { walletAddress, isWatchOnly, selectedWallet } = useWalletContext();
+  const devSigner = useDevSigner();
+  const isDevSigner = !isWatchOnly && devSigner.isEnabled && selectedWallet?.info.rdns === DEV_SIGNER_RDNS;
+
+  // Watched addresses can't sign, so only a connected wallet can prove ownership
+  const { session, isSigningIn, error: signInError, signIn } = useSession(isWatchOnly ? '' : walletAddress);
+
+  const isGuest = !walletAddress;
 
   const navItems = [
-    { id: 'dashboard' as const, label: 'My Assets', icon: Home },
-    { id: 'register' as const, label: 'Register Asset', icon: Plus },
-    { id: 'explore' as const, label: 'Explore', icon: Compass },
-  ];
+    { id: 'dashboard' as const, label: 'My Assets', icon: Home, requiresWallet: true, requiresSigner: false },
+    { id: 'register' as const, label: 'Register Asset', icon: Plus, requiresWallet: true, requiresSigner: true },
+    { id: 'explore' as const, label: 'Explore', icon: Compass, requiresWallet: false, requiresSigner: false },
+    { id: 'activity' as const, label: 'Activity', icon: History, requiresWallet: true, requiresSigner: false },
+    { id: 'contacts' as const, label: 'Address Book', icon: BookUser, requiresWallet: false, requiresSigner: false },
+  ].filter(item => (!isGuest || !item.requiresWallet) && (!isWatchOnly || !item.requiresSigner));
 
   return (
     <aside className="fixed left-0 top-0 h-screen w-64 bg-white border-r border-gray-200 flex flex-col">
@@ -57,26 +71,86 @@ export default function Sidebar({ currentView, onNavigate, walletAddress, onDisc
       </nav>
 
       {/* Wallet Info */}
-      <div className="p-4 border-t border-gray-200">
-        <div className="bg-gray-50 rounded-xl p-4 mb-3">
-          <div className="flex items-center gap-2 mb-2">
-            <Wallet className="w-4 h-4 text-gray-500" />
-            <span className="text-xs text-gray-600">Connected Wallet</span>
+      {isGuest ? (
+        <div className="p-4 border-t border-gray-200">
+          <div className="bg-gray-50 rounded-xl p-4 mb-3">
+            <div className="flex items-center gap-2 mb-2">
+              <Wallet className="w-4 h-4 text-gray-500" />
+              <span className="text-xs text-gray-600">Not Connected</span>
+            </div>
+            <p className="text-xs text-gray-500">Browsing public assets (read-only)</p>
           </div>
-          <p className="text-sm text-gray-900 font-mono">{truncateAddress(walletAddress)}</p>
+
+          {onConnect && (
+            <button
+              onClick={onConnect}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
+            >
+              <LogIn className="w-4 h-4" />
+              Connect Wallet
+            </button>
+          )}
         </div>
+      ) : (
+        <div className="p-4 border-t border-gray-200">
+          <div className="bg-gray-50 rounded-xl p-4 mb-3">
+            <div className="flex items-center gap-2 mb-2">
+              {isWatchOnly ? <Eye className="w-4 h-4 text-purple-500" /> : isDevSigner ? <FlaskConical className="w-4 h-4 text-amber-500" /> : <Wallet className="w-4 h-4 text-gray-500" />}
+              <span className="text-xs text-gray-600">{isWatchOnly ? 'Watching (view-only)' : isDevSigner ? 'Dev Signer (local chain)' : 'Connected Wallet'}</span>
+            </div>
+            <p className="text-sm text-gray-900"><AddressDisplay address={walletAddress} showAvatar /></p>
+
+            {/* Local development only: switch between the accounts derived from VITE_DEV_MNEMONIC */}
+            {isDevSigner && (
+              <select
+                value={devSigner.activeIndex}
+                onChange={(e) => devSigner.selectAccount(Number(e.target.value))}
+                aria-label="Dev signer account"
+                className="mt-2 w-full px-2 py-1.5 text-xs font-mono bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {devSigner.accounts.map((address, index) => (
+                  <option key={address} value={index}>
+                    #{index} {formatAddress(address)}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {!isWatchOnly && (
+              session ? (
+                <p
+                  className="mt-2 flex items-center gap-1 text-xs text-green-700"
+                  title={`Signed in until ${new Date(session.expiresAt).toLocaleString()}${session.method === 'eip1271' ? ' (contract wallet, EIP-1271)' : ''}`}
+                >
+                  <ShieldCheck className="w-3.5 h-3.5" />
+                  Ownership verified
+                </p>
+              ) : (
+                <button
+                  onClick={signIn}
+                  disabled={isSigningIn}
+                  className="mt-2 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  <PenLine className="w-3.5 h-3.5" />
+                  {isSigningIn ? 'Check your wallet...' : 'Sign in to verify ownership'}
+                </button>
+              )
+            )}
+            {signInError && <p className="mt-1 text-xs text-red-600">{signInError}</p>}
+          </div>
         
-        <button
-          onClick={() => {
-            console.log('🔵 SIDEBAR: Disconnect button clicked!');
-            onDisconnect();
-          }}
-          className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm text-red-600 hover:bg-red-50 rounded-xl transition-all"
-        >
-          <LogOut className="w-4 h-4" />
-          Disconnect
-        </button>
-      </div>
+          <button
+            onClick={() => {
+              console.log('🔵 SIDEBAR: Disconnect button clicked!');
+              onDisconnect();
+            }}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm text-red-600 hover:bg-red-50 rounded-xl transition-all"
+          >
+            <LogOut className="w-4 h-4" />
+            {isWatchOnly ? 'Stop Watching' : 'Disconnect'}
+          </button>
+        </div>
+      )}
     </aside>
   );
 }
@@ -0,0 +1,35 @@
+import { ShieldAlert, Loader2 } from 'lucide-react';
+import type { SimulationFailure } from '../utils/simulation';
+
+interface SimulationNoticeProps {
+  failure: SimulationFailure | null;
+  isSimulating: boolean;
+  className?: string;
+}
+
+export default function SimulationNotice({ failure, isSimulating, className = '' }: SimulationNoticeProps) {
+  if (isSimulating) {
+    return (
+      <div className={`flex items-center gap-2 text-sm text-gray-500 ${className}`}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Checking the transaction against the latest block...
+      </div>
+    );
+  }
+
+  if (!failure) return null;
+
+  const { error, call } = failure;
+  return (
+    <div className={`p-3 bg-red-50 border border-red-200 rounded-xl flex gap-2 ${className}`}>
+      <ShieldAlert className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+      <div className="text-sm text-red-900">
+        <p>This transaction would fail, so it was not sent to your wallet.</p>
+        <p className="mt-1 text-red-700">
+          {error.reason ? `Reason: ${error.reason}` : error.message}
+          {' '}<span className="text-xs text-red-500">({call.method})</span>
+        </p>
+      </div>
+    </div>
+  );
+}
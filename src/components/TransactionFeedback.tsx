@@ -1,4 +1,6 @@
+import { ReactNode } from 'react';
 import { CheckCircle, XCircle, Loader2, ExternalLink, AlertCircle } from 'lucide-react';
+import { getExplorerUrl } from '../utils/web3';
 
 export type TransactionStatus = 'idle' | 'uploading' | 'confirming' | 'success' | 'error';
 
@@ -8,6 +10,7 @@ interface TransactionFeedbackProps {
   txHash?: string;
   error?: string;
   onClose?: () => void;
+  actions?: ReactNode; // Extra controls, e.g. speed up / cancel for pending transactions
 }
 
 export default function TransactionFeedback({ 
@@ -15,7 +18,8 @@ export default function TransactionFeedback({
   message, 
   txHash, 
   error,
-  onClose 
+  onClose,
+  actions
 }: TransactionFeedbackProps) {
   if (status === 'idle') return null;
 
@@ -62,6 +66,7 @@ export default function TransactionFeedback({
   if (!config) return null;
 
   const Icon = config.icon;
+  const explorerUrl = txHash ? getExplorerUrl('tx', txHash) : null;
   const isProcessing = status === 'uploading' || status === 'confirming';
 
   return (
@@ -77,9 +82,9 @@ export default function TransactionFeedback({
           </p>
           
           {/* Transaction Hash Link */}
-          {txHash && (
+          {explorerUrl && (
             <a
-              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              href={explorerUrl}
               target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 hover:underline"
@@ -89,6 +94,8 @@ export default function TransactionFeedback({
             </a>
           )}
 
+          {actions && <div className="mt-2 flex items-center gap-2">{actions}</div>}
+
           {/* Close Button for final states */}
           {!isProcessing && onClose && (
             <button
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { FastForward, Ban } from 'lucide-react';
+import TransactionFeedback, { TransactionStatus } from './TransactionFeedback';
+import WorkflowCard from './WorkflowCard';
+import { useTransactions } from '../hooks/useTransactions';
+import { useWorkflows } from '../hooks/useWorkflows';
+import { useWalletContext } from '../contexts/WalletContext';
+import {
+  TrackedTransaction,
+  describeTransaction,
+  speedUpTransaction,
+  cancelTransaction,
+} from '../utils/transactionManager';
+
+// Cards shown at once; older ones stay in storage until dismissed
+const MAX_VISIBLE = 4;
+
+const toFeedbackStatus = (tx: TrackedTransaction): TransactionStatus => {
+  switch (tx.status) {
+    case 'pending': return 'confirming';
+    case 'confirmed': return 'success';
+    case 'failed':
+    case 'replaced':
+    case 'cancelled':
+      return 'error';
+  }
+};
+
+const getErrorText = (tx: TrackedTransaction): string | undefined => {
+  switch (tx.status) {
+    case 'cancelled': return `${describeTransaction(tx)} was cancelled; the original action was not performed.`;
+    case 'replaced': return `${describeTransaction(tx)}: ${tx.error || 'replaced by another transaction.'}`;
+    case 'failed': return `${describeTransaction(tx)}: ${tx.error || 'transaction failed.'}`;
+    default: return undefined;
+  }
+};
+
+export default function TransactionQueue() {
+  const { visible, dismiss } = useTransactions();
+  const workflows = useWorkflows();
+  const { walletAddress, isWatchOnly, isWrongNetwork } = useWalletContext();
+  const [busyHash, setBusyHash] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<{ hash: string; message: string } | null>(null);
+
+  if (visible.length === 0 && workflows.visible.length === 0) return null;
+
+  // Only the account that started something can continue or replace it
+  const isCurrentSigner = (address: string) =>
+    !isWatchOnly && !!walletAddress && address.toLowerCase() === walletAddress.toLowerCase();
+
+  const replace = async (tx: TrackedTransaction, kind: 'speedUp' | 'cancel') => {
+    setBusyHash(tx.hash);
+    setActionError(null);
+    try {
+      await (kind === 'speedUp' ? speedUpTransaction(tx.hash) : cancelTransaction(tx.hash));
+    } catch (error) {
+      setActionError({ hash: tx.hash, message: error instanceof Error ? error.message : 'Could not replace transaction' });
+    } finally {
+      setBusyHash(null);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-96 max-w-[calc(100vw-2rem)] max-h-[calc(100vh-2rem)] overflow-y-auto space-y-2">
+      {workflows.visible.map((run) => (
+        <div key={run.id} className="shadow-lg rounded-xl bg-white">
+          <WorkflowCard
+            run={run}
+            canContinue={isCurrentSigner(run.actor)}
+            isWrongNetwork={isWrongNetwork}
+            onResume={workflows.resume}
+            onSkip={workflows.skip}
+            onDismiss={workflows.dismiss}
+          />
+        </div>
+      ))}
+      {visible.slice(0, MAX_VISIBLE).map((tx) => {
+        const isPending = tx.status === 'pending';
+        const isBusy = busyHash === tx.hash;
+
+        return (
+          <div key={tx.hash} className="shadow-lg rounded-xl bg-white">
+            <TransactionFeedback
+              status={toFeedbackStatus(tx)}
+              message={
+                isPending
+                  ? `${describeTransaction(tx)}${tx.kind === 'speedUp' ? ' (sped up)' : ''} - waiting for confirmation...`
+                  : `${describeTransaction(tx)} - confirmed in block ${tx.blockNumber}.`
+              }
+              txHash={tx.hash}
+              error={getErrorText(tx)}
+              onClose={() => dismiss(tx.hash)}
+              actions={isPending && isCurrentSigner(tx.from) && (
+                <>
+                  <button
+                    onClick={() => replace(tx, 'speedUp')}
+                    disabled={isBusy || isWrongNetwork}
+                    className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-white border border-purple-200 text-purple-700 rounded-lg hover:bg-purple-50 disabled:opacity-50"
+                  >
+                    <FastForward className="w-3 h-3" />
+                    Speed up
+                  </button>
+                  {tx.kind !== 'cancel' && (
+                    <button
+                      onClick={() => replace(tx, 'cancel')}
+                      disabled={isBusy || isWrongNetwork}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Ban className="w-3 h-3" />
+                      Cancel
+                    </button>
+                  )}
+                </>
+              )}
+            />
+            {actionError?.hash === tx.hash && (
+              <p className="px-4 pb-3 text-xs text-red-600">{actionError.message}</p>
+            )}
+          </div>
+        );
+      })}
+      {visible.length > MAX_VISIBLE && (
+        <p className="text-xs text-gray-500 text-right">
+          +{visible.length - MAX_VISIBLE} more
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
 import { useState } from 'react';
 import { X, Send, AlertTriangle, Loader2 } from 'lucide-react';
 import { Asset } from '../App';
+import FeePreview from './FeePreview';
+import SimulationNotice from './SimulationNotice';
+import { useSimulation } from '../hooks/useSimulation';
+import { writeFlows } from '../utils/writeFlows';
+import { useWalletContext } from '../contexts/WalletContext';
+import { useEnsInput } from '../hooks/useEns';
+import EnsResolutionNotice from './EnsResolutionNotice';
+import ContactSuggestions from './ContactSuggestions';
 
 interface TransferOwnershipModalProps {
   asset: Asset;
@@ -9,37 +17,63 @@ interface TransferOwnershipModalProps {
 }
 
 export default function TransferOwnershipModal({ asset, onClose, onTransfer }: TransferOwnershipModalProps) {
+  const { walletAddress } = useWalletContext();
   const [newOwner, setNewOwner] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmedAddress, setConfirmedAddress] = useState<string | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
 
-  const validateAddress = (address: string): boolean => {
-    const regex = /^0x[a-fA-F0-9]{40}$/;
-    return regex.test(address);
-  };
+  // Accepts an address or an ENS name; a resolved name must be confirmed before it is used
+  const recipient = useEnsInput(newOwner);
+  const targetAddress = recipient.address;
+  const isConfirmed = !recipient.isName || (!!targetAddress && confirmedAddress === targetAddress);
+
+  // Preview the fee once the input would pass validation
+  const assetIdNum = parseInt(asset.id);
+  const feeCalls = targetAddress && targetAddress.toLowerCase() !== asset.owner.toLowerCase() && !isNaN(assetIdNum)
+    ? writeFlows.transferOwnership(assetIdNum, walletAddress, targetAddress)
+    : null;
+  const simulation = useSimulation(feeCalls);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
     if (!newOwner.trim()) {
-      setError('Please enter a wallet address');
+      setError('Please enter a wallet address or ENS name');
       return;
     }
 
-    if (!validateAddress(newOwner)) {
-      setError('Invalid wallet address format');
+    if (recipient.isResolving) {
+      setError('Still resolving the ENS name, please wait');
       return;
     }
 
-    if (newOwner.toLowerCase() === asset.owner.toLowerCase()) {
+    if (!targetAddress) {
+      setError(
+        recipient.lookupFailed
+          ? 'Could not resolve the ENS name, please try again'
+          : recipient.isName
+            ? 'This ENS name does not resolve to an address'
+            : 'Invalid wallet address format'
+      );
+      return;
+    }
+
+    if (!isConfirmed) {
+      setError('Please confirm the resolved address');
+      return;
+    }
+
+    if (targetAddress.toLowerCase() === asset.owner.toLowerCase()) {
       setError('This address is already the owner');
       return;
     }
 
     setIsSubmitting(true);
     try {
-      await onTransfer(asset.id, newOwner);
+      await onTransfer(asset.id, targetAddress);
       onClose();
     } catch (error) {
       setError('Failed to transfer ownership');
@@ -86,9 +120,9 @@ export default function TransferOwnershipModal({ asset, onClose, onTransfer }: T
 
         {/* Form */}
         <form onSubmit={handleSubmit}>
-          <div className="mb-6">
+          <div className="mb-6 relative">
             <label htmlFor="new-owner" className="block text-sm text-gray-700 mb-2">
-              New Owner Address <span className="text-red-500">*</span>
+              New Owner Address or ENS Name <span className="text-red-500">*</span>
             </label>
             <input
               id="new-owner"
@@ -97,10 +131,34 @@ export default function TransferOwnershipModal({ asset, onClose, onTransfer }: T
               onChange={(e) => {
                 setNewOwner(e.target.value);
                 setError('');
+                setShowSuggestions(true);
               }}
-              placeholder="0x..."
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              autoComplete="off"
+              placeholder="0x..., name.eth or a contact"
               className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
+            <ContactSuggestions
+              query={newOwner}
+              open={showSuggestions}
+              exclude={[asset.owner]}
+              onSelect={(address) => {
+                setNewOwner(address);
+                setShowSuggestions(false);
+              }}
+            />
+            {recipient.isName && (
+              <EnsResolutionNotice
+                name={newOwner.trim()}
+                isResolving={recipient.isResolving}
+                address={targetAddress}
+                failed={recipient.lookupFailed}
+                confirmed={isConfirmed}
+                onConfirmedChange={(confirmed) => setConfirmedAddress(confirmed ? targetAddress : null)}
+                className="mt-2"
+              />
+            )}
             {error && (
               <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
                 <span className="w-1 h-1 bg-red-600 rounded-full"></span>
@@ -109,6 +167,9 @@ export default function TransferOwnershipModal({ asset, onClose, onTransfer }: T
             )}
           </div>
 
+          <SimulationNotice failure={simulation.failure} isSimulating={simulation.isSimulating} className="mb-4" />
+          <FeePreview calls={simulation.failure ? null : feeCalls} className="mb-6" />
+
           {/* Actions */}
           <div className="flex gap-3">
             <button
@@ -121,7 +182,7 @@ export default function TransferOwnershipModal({ asset, onClose, onTransfer }: T
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || simulation.blocked}
               className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gray-900 text-white rounded-xl hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isSubmitting ? (
@@ -1,35 +1,37 @@
-import { useState, useEffect } from 'react';
-import { Wallet, Shield, CheckCircle2, AlertCircle } from 'lucide-react';
-import { useWallet } from '../hooks/useWallet';
+import { useState } from 'react';
+import { Wallet, Shield, CheckCircle2, AlertCircle, Compass, Eye } from 'lucide-react';
+import { useWalletContext } from '../contexts/WalletContext';
+import { getRememberedWalletRdns } from '../utils/walletDiscovery';
 
 interface WalletRegistrationProps {
-  onRegister: (address: string) => void;
+  onWatch: (address: string) => void; // Browse as an address without being able to sign for it
+  onBrowse?: () => void; // Enter read-only browsing without a wallet
 }
 
-export default function WalletRegistration({ onRegister }: WalletRegistrationProps) {
+export default function WalletRegistration({ onWatch, onBrowse }: WalletRegistrationProps) {
   const [error, setError] = useState('');
   const [walletAddress, setWalletAddress] = useState('');
-  const { connect, isConnecting, isMetaMaskAvailable, account } = useWallet();
+  const { connect, isConnecting, isWalletAvailable, wallets } = useWalletContext();
+  const [connectingRdns, setConnectingRdns] = useState<string | null>(null);
+  const [remember, setRemember] = useState(false);
+  const rememberedRdns = getRememberedWalletRdns();
 
-  // Auto-register when account is connected via MetaMask
-  useEffect(() => {
-    if (account) {
-      onRegister(account);
-    }
-  }, [account, onRegister]);
-
-  const handleConnectWallet = async () => {
+  const handleConnectWallet = async (rdns: string) => {
     setError('');
     
-    if (!isMetaMaskAvailable) {
-      setError('MetaMask is not installed. Please install MetaMask extension to continue.');
+    if (!isWalletAvailable) {
+      setError('No browser wallet found. Please install a wallet extension to continue.');
       return;
     }
 
+    setConnectingRdns(rdns);
     try {
-      await connect();
+      // The app leaves this screen as soon as the shared wallet state has an account
+      await connect(rdns, remember);
     } catch (err: any) {
       setError(err.message || 'Failed to connect wallet. Please try again.');
+    } finally {
+      setConnectingRdns(null);
     }
   };
 
@@ -48,8 +50,8 @@ export default function WalletRegistration({ onRegister }: WalletRegistrationPro
       return;
     }
 
-    // Register with manually entered address
-    onRegister(walletAddress);
+    // A typed-in address can't sign anything, so it is only ever watched
+    onWatch(walletAddress);
   };
 
   return (
@@ -69,7 +71,7 @@ export default function WalletRegistration({ onRegister }: WalletRegistrationPro
           <div className="text-center mb-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-2">Connect Your Wallet</h2>
             <p className="text-gray-600 text-sm">
-              Connect your MetaMask wallet to access the Digital Asset Registry and manage your assets securely on the blockchain.
+              Connect your browser wallet to access the Digital Asset Registry and manage your assets securely on the blockchain.
             </p>
           </div>
 
@@ -103,44 +105,72 @@ export default function WalletRegistration({ onRegister }: WalletRegistrationPro
             </div>
           )}
 
-          {/* MetaMask Not Installed Warning */}
-          {!isMetaMaskAvailable && (
+          {/* No Wallet Installed Warning */}
+          {!isWalletAvailable && (
             <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
               <p className="text-sm text-amber-800 mb-2 font-semibold">
-                MetaMask Not Detected
+                No Wallet Detected
               </p>
               <p className="text-xs text-amber-700 mb-2">
-                Please install MetaMask to connect your wallet.
+                Please install a browser wallet (MetaMask, Rabby, Coinbase Wallet...) to connect.
               </p>
               <a
-                href="https://metamask.io/download/"
+                href="https://ethereum.org/en/wallets/find-wallet/"
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-blue-600 hover:underline font-medium"
               >
-                Download MetaMask →
+                Find a wallet →
               </a>
             </div>
           )}
 
-          {/* Connect Button */}
-          <button
-            onClick={handleConnectWallet}
-            disabled={isConnecting || !isMetaMaskAvailable}
-            className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-          >
-            {isConnecting ? (
-              <>
-                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                <span>Connecting...</span>
-              </>
-            ) : (
-              <>
-                <Wallet className="w-5 h-5" />
-                <span>Connect with MetaMask</span>
-              </>
-            )}
-          </button>
+          {/* Wallet Picker (EIP-6963) */}
+          <div className="space-y-2">
+            {wallets.map(({ info }) => (
+              <button
+                key={info.rdns}
+                onClick={() => handleConnectWallet(info.rdns)}
+                disabled={isConnecting}
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-xl hover:from-blue-700 hover:to-purple-700 transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                {connectingRdns === info.rdns ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    <span>Connecting...</span>
+                  </>
+                ) : (
+                  <>
+                    {info.icon ? (
+                      <img src={info.icon} alt="" className="w-5 h-5 rounded" />
+                    ) : (
+                      <Wallet className="w-5 h-5" />
+                    )}
+                    <span>Connect with {info.name}</span>
+                    {info.rdns === rememberedRdns && wallets.length > 1 && (
+                      <span className="text-xs text-white/80">(last used)</span>
+                    )}
+                  </>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {/* Opt-in persistence */}
+          {wallets.length > 0 && (
+            <label className="mt-3 flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+                className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                Remember this wallet on this device
+                <span className="block text-xs text-gray-500">Reconnects without a prompt and reopens where you left off. Disconnect to forget it.</span>
+              </span>
+            </label>
+          )}
 
           {/* Divider */}
           <div className="relative my-6">
@@ -148,7 +178,7 @@ export default function WalletRegistration({ onRegister }: WalletRegistrationPro
               <div className="w-full border-t border-gray-200"></div>
             </div>
             <div className="relative flex justify-center text-sm">
-              <span className="px-4 bg-white text-gray-500">Or enter manually</span>
+              <span className="px-4 bg-white text-gray-500">Or watch an address (view-only)</span>
             </div>
           </div>
 
@@ -156,7 +186,7 @@ export default function WalletRegistration({ onRegister }: WalletRegistrationPro
           <form onSubmit={handleManualSubmit} className="space-y-4">
             <div>
               <label htmlFor="wallet-address" className="block text-sm font-medium text-gray-700 mb-2">
-                Wallet Address
+                Address to Watch
               </label>
               <input
                 id="wallet-address"
@@ -175,10 +205,28 @@ export default function WalletRegistration({ onRegister }: WalletRegistrationPro
               type="submit"
               className="w-full bg-gray-900 text-white py-3 px-4 rounded-xl hover:bg-gray-800 transition-all duration-200 font-medium"
             >
-              Register & Continue
+              <span className="inline-flex items-center gap-2">
+                <Eye className="w-4 h-4" />
+                Watch Address
+              </span>
             </button>
+            <p className="text-xs text-gray-500">
+              See its assets, what is shared with it and its activity. Writes stay disabled until you connect that wallet.
+            </p>
           </form>
 
+          {/* Browse without a wallet */}
+          {onBrowse && (
+            <button
+              type="button"
+              onClick={onBrowse}
+              className="w-full mt-3 flex items-center justify-center gap-2 py-3 px-4 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-xl hover:bg-gray-100 transition-all duration-200"
+            >
+              <Compass className="w-4 h-4" />
+              Browse public assets without a wallet
+            </button>
+          )}
+
           {/* Info Note */}
           <div className="mt-6 p-3 bg-amber-50 border border-amber-100 rounded-lg">
             <p className="text-xs text-amber-800">
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { X, CheckCircle2, XCircle, Loader2, Circle, SkipForward, RotateCcw, ExternalLink, Play } from 'lucide-react';
+import { getExplorerUrl } from '../utils/web3';
+import type { WorkflowRun, WorkflowStep } from '../utils/workflows';
+import AddressDisplay from './AddressDisplay';
+
+interface WorkflowCardProps {
+  run: WorkflowRun;
+  canContinue: boolean; // False when another account started the run
+  isWrongNetwork: boolean; // The wallet is on another chain; steps can't be sent until it switches back
+  onResume: (id: string) => Promise<unknown>;
+  onSkip: (id: string) => Promise<unknown>;
+  onDismiss: (id: string) => void;
+}
+
+const stepIcon = (step: WorkflowStep) => {
+  switch (step.status) {
+    case 'pending': return <Circle className="w-4 h-4 text-gray-300" />;
+    case 'running': return <Loader2 className="w-4 h-4 text-purple-600 animate-spin" />;
+    case 'done': return <CheckCircle2 className="w-4 h-4 text-green-600" />;
+    case 'failed': return <XCircle className="w-4 h-4 text-red-600" />;
+    case 'skipped': return <SkipForward className="w-4 h-4 text-gray-400" />;
+  }
+};
+
+const headerStyle: Record<WorkflowRun['status'], string> = {
+  running: 'bg-purple-50 border-purple-200',
+  paused: 'bg-amber-50 border-amber-200',
+  failed: 'bg-red-50 border-red-200',
+  completed: 'bg-green-50 border-green-200',
+};
+
+export default function WorkflowCard({ run, canContinue, isWrongNetwork, onResume, onSkip, onDismiss }: WorkflowCardProps) {
+  const [isBusy, setIsBusy] = useState(false);
+  const done = run.steps.filter((step) => step.status === 'done').length;
+
+  const act = async (action: (id: string) => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action(run.id);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className={`p-4 rounded-xl border ${headerStyle[run.status]}`}>
+      <div className="flex items-start justify-between gap-2 mb-3">
+        <div className="min-w-0">
+          <p className="text-sm text-gray-900">{run.title}</p>
+          <p className="text-xs text-gray-600">
+            {run.status === 'completed'
+              ? 'All steps completed'
+              : run.status === 'paused'
+                ? `Paused after a reload - ${done} of ${run.steps.length} steps done`
+                : `Step ${Math.min(done + 1, run.steps.length)} of ${run.steps.length}`}
+          </p>
+        </div>
+        {run.status !== 'running' && (
+          <button
+            onClick={() => onDismiss(run.id)}
+            className="w-6 h-6 flex items-center justify-center rounded-lg hover:bg-white/60 transition-colors flex-shrink-0"
+          >
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        )}
+      </div>
+
+      <ol className="space-y-1.5">
+        {run.steps.map((step, index) => {
+          const txUrl = step.txHash ? getExplorerUrl('tx', step.txHash) : null;
+          return (
+            <li key={index} className="flex items-start gap-2 text-xs">
+              <span className="mt-0.5">{stepIcon(step)}</span>
+              <div className="flex-1 min-w-0">
+                <p className={step.status === 'skipped' ? 'text-gray-400 line-through' : 'text-gray-800'}>{step.label}</p>
+                {step.txHash && (
+                  txUrl ? (
+                    <a href={txUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700">
+                      <code>{step.txHash.slice(0, 10)}...{step.txHash.slice(-8)}</code>
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  ) : (
+                    <code className="text-gray-500 break-all">{step.txHash}</code>
+                  )
+                )}
+                {step.status === 'failed' && step.error && <p className="text-red-600">{step.error}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {(run.status === 'failed' || run.status === 'paused') && !canContinue && (
+        <p className="mt-3 text-xs text-gray-600">
+          Started by <AddressDisplay address={run.actor} /> - switch back to that account to continue.
+        </p>
+      )}
+
+      {(run.status === 'failed' || run.status === 'paused') && canContinue && (
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={() => act(onResume)}
+            disabled={isBusy || isWrongNetwork}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-white border border-purple-200 text-purple-700 rounded-lg hover:bg-purple-50 disabled:opacity-50"
+          >
+            {run.status === 'paused' ? <Play className="w-3 h-3" /> : <RotateCcw className="w-3 h-3" />}
+            {run.status === 'paused' ? 'Continue' : 'Resume'}
+          </button>
+          {run.status === 'failed' && (
+            <button
+              onClick={() => act(onSkip)}
+              disabled={isBusy || isWrongNetwork}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              <SkipForward className="w-3 h-3" />
+              Skip step
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
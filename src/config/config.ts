@@ -1,6 +1,76 @@
+export type NetworkKey = 'sepolia' | 'goerli' | 'polygonMumbai' | 'localhost' | 'custom';
+
+export interface NetworkConfig {
+  chainId: string; // Hex, as used by eth_chainId / wallet_switchEthereumChain
+  chainName: string;
+  rpcUrls: string[];
+  blockExplorerUrls: string[];
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  faucetUrl?: string;
+}
+
+export interface Deployment {
+  contractAddress: string;
+  startBlock: number; // Block the registry was deployed at (the indexer starts here)
+}
+
+const toHexChainId = (value: string): string =>
+  value.startsWith('0x') ? value.toLowerCase() : '0x' + Number(value).toString(16);
+
+// Network the dApp targets: reads, wallet network checks, explorer links and messages all derive from it
+const targetNetwork = (import.meta.env.VITE_NETWORK_NAME || 'sepolia') as NetworkKey;
+
+// Known registry deployments per network. VITE_CONTRACT_ADDRESS / VITE_DEPLOYMENT_BLOCK override the target's entry.
+const deployments: Record<NetworkKey, Deployment> = {
+  sepolia: { contractAddress: '', startBlock: 0 },
+  goerli: { contractAddress: '', startBlock: 0 },
+  polygonMumbai: { contractAddress: '', startBlock: 0 },
+  localhost: { contractAddress: '', startBlock: 0 },
+  custom: { contractAddress: '', startBlock: 0 },
+};
+
+const deployment: Deployment = {
+  contractAddress: import.meta.env.VITE_CONTRACT_ADDRESS || deployments[targetNetwork]?.contractAddress || '',
+  startBlock: Number(import.meta.env.VITE_DEPLOYMENT_BLOCK || deployments[targetNetwork]?.startBlock || 0),
+};
+
 export const config = {
-  // Contract address - will be set after deployment
-  contractAddress: import.meta.env.VITE_CONTRACT_ADDRESS || '',
+  // Registry contract on the target network
+  contractAddress: deployment.contractAddress,
+  
+  // Network used for reads and required for signing
+  defaultNetwork: targetNetwork,
+  
+  // Optional JSON-RPC endpoint for reads - overrides the default network's rpcUrls
+  rpcUrl: import.meta.env.VITE_RPC_URL || '',
+  
+  deployments,
+  
+  // Event indexer - scan logs from the deployment block in fixed-size pages
+  indexer: {
+    startBlock: deployment.startBlock,
+    pageSize: Number(import.meta.env.VITE_LOG_PAGE_SIZE || 5000),
+  },
+  
+  // ENS lookups - by default through the read RPC (works where the network has ENS, e.g. Sepolia).
+  // VITE_ENS_RPC_URL points lookups at another chain (e.g. mainnet); VITE_ENS_REGISTRY uses an
+  // ENS registry deployed on the target network itself (local development).
+  ens: {
+    rpcUrl: import.meta.env.VITE_ENS_RPC_URL || '',
+    registryAddress: import.meta.env.VITE_ENS_REGISTRY || '',
+  },
+  
+  // Dev signer - signs with accounts derived from this mnemonic instead of a browser wallet.
+  // Only enabled in dev builds whose target is a local chain (see src/utils/devSigner.ts).
+  // Read under DEV only, so production builds never inline the mnemonic.
+  devSigner: {
+    mnemonic: import.meta.env.DEV ? import.meta.env.VITE_DEV_MNEMONIC || '' : '',
+    accountCount: Number(import.meta.env.VITE_DEV_ACCOUNT_COUNT || 10),
+  },
   
   // IPFS Configuration
   pinata: {
@@ -14,13 +84,14 @@ export const config = {
     sepolia: {
       chainId: '0xaa36a7', // 11155111 in hex
       chainName: 'Sepolia Test Network',
-      rpcUrls: ['https://sepolia.infura.io/v3/'],
+      rpcUrls: ['https://ethereum-sepolia-rpc.publicnode.com', 'https://rpc.sepolia.org'],
       blockExplorerUrls: ['https://sepolia.etherscan.io'],
       nativeCurrency: {
         name: 'SepoliaETH',
         symbol: 'ETH',
         decimals: 18,
       },
+      faucetUrl: 'https://sepoliafaucet.com/',
     },
     goerli: {
       chainId: '0x5', // 5 in hex
@@ -55,5 +126,17 @@ export const config = {
         decimals: 18,
       },
     },
-  },
+    // Private testnet described entirely by environment variables
+    custom: {
+      chainId: toHexChainId(import.meta.env.VITE_CHAIN_ID || '0'),
+      chainName: import.meta.env.VITE_CHAIN_NAME || 'Private Network',
+      rpcUrls: import.meta.env.VITE_RPC_URL ? [import.meta.env.VITE_RPC_URL] : [],
+      blockExplorerUrls: import.meta.env.VITE_EXPLORER_URL ? [import.meta.env.VITE_EXPLORER_URL] : [],
+      nativeCurrency: {
+        name: import.meta.env.VITE_CURRENCY_SYMBOL || 'ETH',
+        symbol: import.meta.env.VITE_CURRENCY_SYMBOL || 'ETH',
+        decimals: 18,
+      },
+    },
+  } as Record<NetworkKey, NetworkConfig>,
 };
@@ -0,0 +1,139 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useWallet } from '../hooks/useWallet';
+import { formatAddress, getTargetNetwork, revokeWalletPermissions, setExpectedSigner } from '../utils/web3';
+import { RegistryError } from '../utils/errors';
+import { signOut } from '../utils/siwe';
+import { DiscoveredWallet, getSelectedWallet, LEGACY_WALLET_RDNS } from '../utils/walletDiscovery';
+import { clearSessionStorage, forgetWallet, getRememberedWallet, rememberWallet } from '../utils/walletSession';
+
+interface WalletContextValue {
+  walletAddress: string; // Address the app acts as: the watched address, else the connected account ('' if neither)
+  account: string; // Account the wallet exposes ('' when not connected)
+  isWatchOnly: boolean;
+  isRestoring: boolean; // Reconnecting a remembered wallet on startup
+  chainId: string; // Hex; the wallet's chain, which may differ from the target network
+  isWrongNetwork: boolean;
+  isConnecting: boolean;
+  error: string;
+  wallets: DiscoveredWallet[];
+  selectedWallet: DiscoveredWallet | null;
+  isWalletAvailable: boolean;
+  connect: (rdns?: string, remember?: boolean) => Promise<void>;
+  watchAddress: (address: string) => void;
+  connectWatchedWallet: () => Promise<void>;
+  disconnect: () => Promise<void>;
+}
+
+const WalletContext = createContext<WalletContextValue | null>(null);
+
+/**
+ * Holds the wallet identity for the whole app. Account and chain switches in the wallet
+ * update every consumer in place; nothing reloads the page.
+ */
+export function WalletProvider({ children }: { children: ReactNode }) {
+  const wallet = useWallet();
+  const [watchedAddress, setWatchedAddress] = useState('');
+  const [isRestoring, setIsRestoring] = useState(() => getRememberedWallet() !== null);
+
+  const walletAddress = watchedAddress || wallet.account;
+  const isWatchOnly = !!watchedAddress;
+  const isWrongNetwork =
+    !isWatchOnly && !!wallet.account && !!wallet.chainId &&
+    wallet.chainId.toLowerCase() !== getTargetNetwork().chainId.toLowerCase();
+
+  // Reconnect a remembered wallet silently (eth_accounts) - run ONCE on app start
+  useEffect(() => {
+    if (!isRestoring) return;
+    wallet.restore()
+      .catch((error) => console.warn('Could not restore the remembered wallet:', error))
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  // Writes must be signed by whoever the app is acting as
+  useEffect(() => {
+    setExpectedSigner(walletAddress || null);
+  }, [walletAddress]);
+
+  // A remembered wallet follows account switches, so the next visit restores the account in use
+  useEffect(() => {
+    const remembered = getRememberedWallet();
+    if (wallet.account && remembered && remembered.address.toLowerCase() !== wallet.account.toLowerCase()) {
+      console.log('🔄 Account switched to', wallet.account);
+      rememberWallet({ ...remembered, address: wallet.account });
+    }
+  }, [wallet.account]);
+
+  // `remember` is the opt-in from the connect screen; undefined keeps the current choice
+  const connect = useCallback(async (rdns?: string, remember?: boolean) => {
+    const connected = await wallet.connect(rdns);
+    if (!connected) return;
+
+    if (remember) {
+      rememberWallet({ address: connected, rdns: getSelectedWallet()?.info.rdns ?? LEGACY_WALLET_RDNS });
+    } else if (remember === false) {
+      forgetWallet();
+    }
+  }, [wallet.connect]);
+
+  // Browse as a manually entered address; nothing can be signed until that wallet connects
+  const watchAddress = useCallback((address: string) => {
+    setWatchedAddress(address);
+  }, []);
+
+  // Leave watch mode only if the wallet exposes the watched address
+  const connectWatchedWallet = useCallback(async () => {
+    const connected = await wallet.connect();
+    if (!connected) return;
+
+    if (connected.toLowerCase() !== watchedAddress.toLowerCase()) {
+      throw new RegistryError(
+        'account-mismatch',
+        `Your wallet is on ${formatAddress(connected)}, not the watched address ${formatAddress(watchedAddress)}. ` +
+        'Switch accounts in your wallet and try again.'
+      );
+    }
+    setWatchedAddress('');
+  }, [wallet.connect, watchedAddress]);
+
+  // A real logout: the wallet forgets this site too, and the app's session keys are cleared
+  const disconnect = useCallback(async () => {
+    if (!isWatchOnly && wallet.account) {
+      await revokeWalletPermissions();
+    }
+    clearSessionStorage();
+    signOut();
+    setWatchedAddress('');
+    wallet.disconnect();
+  }, [isWatchOnly, wallet.account, wallet.disconnect]);
+
+  const value: WalletContextValue = {
+    walletAddress,
+    account: wallet.account,
+    isWatchOnly,
+    isRestoring,
+    chainId: wallet.chainId,
+    isWrongNetwork,
+    isConnecting: wallet.isConnecting,
+    error: wallet.error,
+    wallets: wallet.wallets,
+    selectedWallet: wallet.selectedWallet,
+    isWalletAvailable: wallet.isWalletAvailable,
+    connect,
+    watchAddress,
+    connectWatchedWallet,
+    disconnect,
+  };
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+}
+
+/**
+ * Read the shared wallet state; must be rendered inside WalletProvider
+ */
+export const useWalletContext = (): WalletContextValue => {
+  const context = useContext(WalletContext);
+  if (!context) {
+    throw new Error('useWalletContext must be used within a WalletProvider');
+  }
+  return context;
+};
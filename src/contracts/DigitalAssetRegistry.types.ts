@@ -0,0 +1,141 @@
+// Auto-generated by scripts/generate-contract-types.mjs from DigitalAssetRegistry.json - do not edit.
+// Run `npm run generate:types` after changing the ABI.
+
+import type {
+  AddressLike,
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  ContractTransactionResponse,
+  DeferredTopicFilter,
+  Overrides,
+} from 'ethers';
+
+// ---------------------------------------------------------------------------
+// Function outputs
+// ---------------------------------------------------------------------------
+
+export interface ViewAssetOutput {
+  id: bigint;
+  name: string;
+  assetType: string;
+  description: string;
+  assetURI: string;
+  author: string;
+  owner: string;
+  creationTimestamp: bigint;
+}
+
+export interface ViewUsageEntryOutput {
+  actor: string;
+  timestamp: bigint;
+  description: string;
+}
+
+export interface DigitalAssetRegistryFunctionInputs {
+  grantPermission: [assetId: BigNumberish, grantee: AddressLike];
+  hasPermission: [assetId: BigNumberish, user: AddressLike];
+  logUsage: [assetId: BigNumberish, usageDescription: string];
+  registerAsset: [name: string, assetType: string, description: string, assetURI: string];
+  revokePermission: [assetId: BigNumberish, grantee: AddressLike];
+  transferOwnership: [assetId: BigNumberish, newOwner: AddressLike];
+  usageCount: [assetId: BigNumberish];
+  viewAsset: [assetId: BigNumberish];
+  viewUsageEntry: [assetId: BigNumberish, index: BigNumberish];
+}
+
+export interface DigitalAssetRegistryFunctionOutputs {
+  grantPermission: void;
+  hasPermission: boolean;
+  logUsage: void;
+  registerAsset: bigint;
+  revokePermission: void;
+  transferOwnership: void;
+  usageCount: bigint;
+  viewAsset: ViewAssetOutput;
+  viewUsageEntry: ViewUsageEntryOutput;
+}
+
+export type DigitalAssetRegistryViewFunction = 'hasPermission' | 'usageCount' | 'viewAsset' | 'viewUsageEntry';
+
+export type DigitalAssetRegistryWriteFunction = 'grantPermission' | 'logUsage' | 'registerAsset' | 'revokePermission' | 'transferOwnership';
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+export interface AssetRegisteredEventArgs {
+  assetId: bigint;
+  author: string;
+  owner: string;
+}
+
+export interface OwnershipTransferredEventArgs {
+  assetId: bigint;
+  oldOwner: string;
+  newOwner: string;
+}
+
+export interface PermissionGrantedEventArgs {
+  assetId: bigint;
+  grantee: string;
+}
+
+export interface PermissionRevokedEventArgs {
+  assetId: bigint;
+  grantee: string;
+}
+
+export interface UsageLoggedEventArgs {
+  assetId: bigint;
+  actor: string;
+  timestamp: bigint;
+  description: string;
+}
+
+export interface DigitalAssetRegistryEventArgs {
+  AssetRegistered: AssetRegisteredEventArgs;
+  OwnershipTransferred: OwnershipTransferredEventArgs;
+  PermissionGranted: PermissionGrantedEventArgs;
+  PermissionRevoked: PermissionRevokedEventArgs;
+  UsageLogged: UsageLoggedEventArgs;
+}
+
+export type DigitalAssetRegistryEventName = keyof DigitalAssetRegistryEventArgs;
+
+// Indexed parameters usable as topic filters (null/undefined matches anything)
+export interface DigitalAssetRegistryEventFilters {
+  AssetRegistered(assetId?: BigNumberish | null, author?: AddressLike | null, owner?: AddressLike | null): DeferredTopicFilter;
+  OwnershipTransferred(assetId?: BigNumberish | null, oldOwner?: AddressLike | null, newOwner?: AddressLike | null): DeferredTopicFilter;
+  PermissionGranted(assetId?: BigNumberish | null, grantee?: AddressLike | null): DeferredTopicFilter;
+  PermissionRevoked(assetId?: BigNumberish | null, grantee?: AddressLike | null): DeferredTopicFilter;
+  UsageLogged(assetId?: BigNumberish | null, actor?: AddressLike | null): DeferredTopicFilter;
+}
+
+// ---------------------------------------------------------------------------
+// Contract
+// ---------------------------------------------------------------------------
+
+export interface TypedViewMethod<A extends unknown[], R> {
+  (...args: A): Promise<R>;
+  staticCall(...args: A): Promise<R>;
+}
+
+export interface TypedWriteMethod<A extends unknown[], R> {
+  (...args: A | [...A, Overrides]): Promise<ContractTransactionResponse>;
+  staticCall(...args: A | [...A, Overrides]): Promise<R>;
+  estimateGas(...args: A | [...A, Overrides]): Promise<bigint>;
+}
+
+export interface DigitalAssetRegistry extends Omit<BaseContract, 'filters'> {
+  hasPermission: TypedViewMethod<DigitalAssetRegistryFunctionInputs['hasPermission'], DigitalAssetRegistryFunctionOutputs['hasPermission']>;
+  usageCount: TypedViewMethod<DigitalAssetRegistryFunctionInputs['usageCount'], DigitalAssetRegistryFunctionOutputs['usageCount']>;
+  viewAsset: TypedViewMethod<DigitalAssetRegistryFunctionInputs['viewAsset'], DigitalAssetRegistryFunctionOutputs['viewAsset']>;
+  viewUsageEntry: TypedViewMethod<DigitalAssetRegistryFunctionInputs['viewUsageEntry'], DigitalAssetRegistryFunctionOutputs['viewUsageEntry']>;
+  grantPermission: TypedWriteMethod<DigitalAssetRegistryFunctionInputs['grantPermission'], DigitalAssetRegistryFunctionOutputs['grantPermission']>;
+  logUsage: TypedWriteMethod<DigitalAssetRegistryFunctionInputs['logUsage'], DigitalAssetRegistryFunctionOutputs['logUsage']>;
+  registerAsset: TypedWriteMethod<DigitalAssetRegistryFunctionInputs['registerAsset'], DigitalAssetRegistryFunctionOutputs['registerAsset']>;
+  revokePermission: TypedWriteMethod<DigitalAssetRegistryFunctionInputs['revokePermission'], DigitalAssetRegistryFunctionOutputs['revokePermission']>;
+  transferOwnership: TypedWriteMethod<DigitalAssetRegistryFunctionInputs['transferOwnership'], DigitalAssetRegistryFunctionOutputs['transferOwnership']>;
+  filters: DigitalAssetRegistryEventFilters;
+}
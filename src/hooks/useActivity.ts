@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchWalletActivity, ActivityEntry } from '../utils/activity';
+import { toRegistryError } from '../utils/errors';
+import { onTransactionSettled } from '../utils/transactionManager';
+import { config } from '../config/config';
+
+/**
+ * Registry activity of a wallet; reloads when one of its tracked transactions settles
+ */
+export const useActivity = (address: string) => {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  useEffect(() => onTransactionSettled(refresh), [refresh]);
+
+  // Accounts switch in place; never show the previous account's history under the new one
+  useEffect(() => {
+    setEntries([]);
+  }, [address]);
+
+  useEffect(() => {
+    if (!address) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchWalletActivity(address, config.indexer.startBlock)
+      .then((result) => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        // Drop what was shown rather than leave an out-of-date history on screen
+        setEntries([]);
+        setError(toRegistryError(err).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, version]);
+
+  return { entries, isLoading, error, refresh };
+};
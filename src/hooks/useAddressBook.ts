@@ -0,0 +1,31 @@
+import { useSyncExternalStore } from 'react';
+import {
+  Contact,
+  getContacts,
+  subscribeContacts,
+  saveContact,
+  removeContact,
+  importAddressBook,
+  exportAddressBook,
+} from '../utils/addressBook';
+
+export const useAddressBook = () => {
+  const contacts = useSyncExternalStore(subscribeContacts, getContacts);
+
+  return {
+    contacts,
+    save: saveContact,
+    remove: removeContact,
+    importContacts: importAddressBook,
+    exportContacts: exportAddressBook,
+  };
+};
+
+/**
+ * The address book entry for an address, if any (updates when the book changes)
+ */
+export const useContact = (address: string | null | undefined): Contact | null => {
+  const contacts = useSyncExternalStore(subscribeContacts, getContacts);
+  if (!address) return null;
+  return contacts.find((contact) => contact.address.toLowerCase() === address.toLowerCase()) ?? null;
+};
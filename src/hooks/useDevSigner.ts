@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getDevSignerState, selectDevAccount, subscribeDevSigner } from '../utils/devSigner';
+
+export const useDevSigner = () => {
+  const state = useSyncExternalStore(subscribeDevSigner, getDevSignerState);
+
+  return {
+    ...state,
+    selectAccount: selectDevAccount,
+  };
+};
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { isAddress, getAddress } from 'ethers';
+import { EnsProfile, isEnsName, lookupEnsProfile, resolveEnsName } from '../utils/ens';
+
+const EMPTY_PROFILE: EnsProfile = { name: null, avatar: null };
+
+/**
+ * Primary ENS name and avatar for an address (cached across components)
+ */
+export const useEnsProfile = (address: string | null | undefined) => {
+  const [profile, setProfile] = useState<EnsProfile>(EMPTY_PROFILE);
+
+  useEffect(() => {
+    setProfile(EMPTY_PROFILE);
+    if (!address || !isAddress(address)) return;
+
+    let cancelled = false;
+    lookupEnsProfile(address)
+      .then((result) => {
+        if (!cancelled) setProfile(result);
+      })
+      .catch(() => {
+        // Lookups never block the UI; the plain address is shown instead
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  return profile;
+};
+
+/**
+ * Turn an address-or-ENS-name input into an address.
+ * `address` is null until the input is a valid address or a name that resolved.
+ * `lookupFailed` means the name could not be checked (e.g. an RPC error), as opposed to `notFound`.
+ */
+export const useEnsInput = (value: string) => {
+  const trimmed = value.trim();
+  const isName = isEnsName(trimmed);
+  const [resolved, setResolved] = useState<{ name: string; address: string | null; failed: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!isName) return;
+
+    let cancelled = false;
+    resolveEnsName(trimmed)
+      .then((address) => {
+        if (!cancelled) setResolved({ name: trimmed, address, failed: false });
+      })
+      .catch(() => {
+        // Not cached, so editing the input (or reopening the form) tries again
+        if (!cancelled) setResolved({ name: trimmed, address: null, failed: true });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trimmed, isName]);
+
+  // Results for an earlier input are ignored, so a stale resolution is never used
+  const current = isName && resolved?.name === trimmed ? resolved : null;
+
+  return {
+    isName,
+    isResolving: isName && !current,
+    address: isName ? current?.address ?? null : isAddress(trimmed) ? getAddress(trimmed) : null,
+    notFound: isName && !!current && !current.address && !current.failed,
+    lookupFailed: isName && !!current?.failed,
+  };
+};
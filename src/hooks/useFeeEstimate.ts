@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { estimateFees, FeeEstimate } from '../utils/gas';
+import { toRegistryError } from '../utils/errors';
+import type { WriteCall } from '../utils/writeFlows';
+
+// Wait for typing to settle before estimating
+const DEBOUNCE_MS = 400;
+
+/**
+ * Estimate fees for an action whenever its calls change; pass null while the input is incomplete
+ */
+export const useFeeEstimate = (calls: WriteCall[] | null) => {
+  const [estimate, setEstimate] = useState<FeeEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Calls are rebuilt on every render; compare them by value
+  const key = calls ? JSON.stringify(calls) : null;
+
+  useEffect(() => {
+    setEstimate(null);
+    setError(null);
+    if (!key) {
+      setIsEstimating(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsEstimating(true);
+    const timer = setTimeout(() => {
+      estimateFees(JSON.parse(key) as WriteCall[])
+        .then((result) => {
+          if (!cancelled) setEstimate(result);
+        })
+        .catch((err) => {
+          if (!cancelled) setError(toRegistryError(err).message);
+        })
+        .finally(() => {
+          if (!cancelled) setIsEstimating(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  return { estimate, isEstimating, error };
+};
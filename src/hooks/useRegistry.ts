@@ -0,0 +1,148 @@
+import { useState, useCallback, useRef, useMemo, useEffect, useSyncExternalStore } from 'react';
+import { Asset } from '../App';
+import {
+  RegistryEvent,
+  RegistryState,
+  applyLiveEvent,
+  createRegistryState,
+  loadMissingDetails,
+  subscribeToRegistry,
+  syncRegistry,
+} from '../utils/indexer';
+import { loadCachedRegistry, saveCachedRegistry } from '../utils/registryCache';
+import { buildAssets } from '../utils/assetLoader';
+import { getUsageStorageVersion, subscribeUsageStorage } from '../utils/usageLogService';
+import { getReadChainId } from '../utils/web3';
+import { config } from '../config/config';
+
+export const useRegistry = () => {
+  const [registryState, setRegistryState] = useState<RegistryState | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isStale, setIsStale] = useState(false);
+
+  // Serialize syncs so a refresh requested mid-sync still picks up newer blocks
+  const syncQueue = useRef<Promise<void>>(Promise.resolve());
+  const stateRef = useRef<RegistryState | null>(null);
+  const cacheKeyRef = useRef<string>('');
+
+  const runSync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const chainId = await getReadChainId();
+      const cacheKey = `${chainId}:${config.contractAddress}`;
+
+      // Switching chain/contract invalidates what is in memory
+      if (cacheKeyRef.current !== cacheKey) {
+        cacheKeyRef.current = cacheKey;
+        stateRef.current = null;
+        setRegistryState(null);
+      }
+
+      let baseState = stateRef.current;
+      if (!baseState) {
+        const cached = await loadCachedRegistry(chainId, config.contractAddress);
+        if (cached) {
+          console.log(`💾 Loaded cached registry up to block ${cached.lastBlock}`);
+          stateRef.current = cached;
+          setRegistryState(cached);
+          setIsStale(true);
+        }
+        baseState = cached;
+      }
+
+      // Sync a copy so the rendered state stays untouched until the sync completes
+      const nextState = await syncRegistry(
+        baseState ? structuredClone(baseState) : createRegistryState()
+      );
+
+      stateRef.current = nextState;
+      setRegistryState(nextState);
+      setIsStale(false);
+      await saveCachedRegistry(chainId, config.contractAddress, nextState);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  /**
+   * Fetch logs after the last synced block and apply them
+   */
+  const refresh = useCallback((): Promise<void> => {
+    const next = syncQueue.current.then(runSync, runSync);
+    syncQueue.current = next.catch(() => undefined);
+    return next;
+  }, [runSync]);
+
+  /**
+   * Apply an event from the live subscription on top of the current state
+   */
+  const applyEvent = useCallback(async (event: RegistryEvent) => {
+    const baseState = stateRef.current;
+    if (!baseState) return;
+
+    const nextState = structuredClone(baseState);
+    if (!applyLiveEvent(nextState, event)) return;
+
+    // A newly registered asset still needs its name, type and URI
+    await loadMissingDetails(nextState);
+
+    stateRef.current = nextState;
+    setRegistryState(nextState);
+    console.log(`⚡ Applied live ${event.name} for asset ${event.assetId}`);
+
+    const [chainId] = cacheKeyRef.current.split(':');
+    await saveCachedRegistry(chainId, config.contractAddress, nextState);
+  }, []);
+
+  const hasData = registryState !== null;
+
+  // Keep the state live once it has been loaded; events go through the sync queue
+  useEffect(() => {
+    if (!hasData) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    subscribeToRegistry((event) => {
+      const next = syncQueue.current.then(() => applyEvent(event));
+      syncQueue.current = next.catch((error) => console.error('Failed to apply live event:', error));
+    })
+      .then((stop) => {
+        if (cancelled) stop();
+        else unsubscribe = stop;
+      })
+      .catch((error) => console.warn('⚠️ Live registry updates unavailable:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [hasData, applyEvent]);
+
+  /**
+   * Drop in-memory state (e.g. on disconnect); the persistent cache is kept
+   */
+  const reset = useCallback(() => {
+    stateRef.current = null;
+    cacheKeyRef.current = '';
+    setRegistryState(null);
+    setIsStale(false);
+  }, []);
+
+  // Usage logs are reconciled against the latest storage reads, so rebuild when one lands
+  const usageStorageVersion = useSyncExternalStore(subscribeUsageStorage, getUsageStorageVersion);
+  const assets: Asset[] = useMemo(
+    () => (registryState ? buildAssets(registryState) : []),
+    [registryState, usageStorageVersion]
+  );
+
+  return {
+    assets,
+    lastSyncedBlock: registryState?.lastBlock ?? null,
+    hasData,
+    isSyncing,
+    isStale,
+    refresh,
+    reset,
+  };
+};
@@ -0,0 +1,28 @@
+import { useState, useSyncExternalStore, useCallback } from 'react';
+import { getSession, subscribeSession, signInWithEthereum, signOut } from '../utils/siwe';
+import { toRegistryError } from '../utils/errors';
+
+/**
+ * Sign-In with Ethereum session for an address; `session` is null unless that address has signed in
+ */
+export const useSession = (address: string) => {
+  const current = useSyncExternalStore(subscribeSession, getSession);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const session = current && address && current.address.toLowerCase() === address.toLowerCase() ? current : null;
+
+  const signIn = useCallback(async () => {
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      await signInWithEthereum(address);
+    } catch (err) {
+      setError(toRegistryError(err).message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [address]);
+
+  return { session, isVerified: !!session, isSigningIn, error, signIn, signOut };
+};
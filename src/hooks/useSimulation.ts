@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { simulateCalls, SimulationFailure } from '../utils/simulation';
+import { toRegistryError } from '../utils/errors';
+import type { WriteCall } from '../utils/writeFlows';
+
+// Wait for typing to settle before simulating
+const DEBOUNCE_MS = 400;
+
+/**
+ * Simulate an action's calls whenever they change; pass null while the input is incomplete.
+ * `blocked` stays true until the current calls have been simulated successfully.
+ */
+export const useSimulation = (calls: WriteCall[] | null) => {
+  const [result, setResult] = useState<{ key: string; failure: SimulationFailure | null } | null>(null);
+
+  // Calls are rebuilt on every render; compare them by value
+  const key = calls ? JSON.stringify(calls) : null;
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const parsed = JSON.parse(key) as WriteCall[];
+      simulateCalls(parsed)
+        .catch((err): SimulationFailure => ({ call: parsed[0], error: toRegistryError(err) })) // Could not simulate at all
+        .then((failure) => {
+          if (!cancelled) setResult({ key, failure });
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  const current = key && result?.key === key ? result : null;
+  const isSimulating = !!key && !current;
+  const failure = current?.failure ?? null;
+
+  return { failure, isSimulating, blocked: isSimulating || !!failure };
+};
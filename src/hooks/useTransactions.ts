@@ -0,0 +1,29 @@
+import { useSyncExternalStore, useMemo } from 'react';
+import {
+  TrackedTransaction,
+  getTransactions,
+  subscribeTransactions,
+  dismissTransaction,
+} from '../utils/transactionManager';
+
+export const useTransactions = () => {
+  const transactions = useSyncExternalStore(subscribeTransactions, getTransactions);
+
+  // Transactions still shown in the feedback queue
+  const visible: TrackedTransaction[] = useMemo(
+    () => transactions.filter((tx) => !tx.dismissed),
+    [transactions]
+  );
+
+  const pending = useMemo(
+    () => transactions.filter((tx) => tx.status === 'pending'),
+    [transactions]
+  );
+
+  return {
+    transactions,
+    visible,
+    pending,
+    dismiss: dismissTransaction,
+  };
+};
@@ -1,102 +1,82 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
 import {
   connectWallet,
-  getCurrentAccount,
   onAccountsChanged,
   onChainChanged,
-  removeAccountsListener,
-  removeChainListener,
-  isMetaMaskInstalled,
   getChainId,
-  ensureSepoliaNetwork,
+  ensureNetwork,
+  getTargetNetwork,
 } from '../utils/web3';
+import {
+  getWallets,
+  getSelectedWallet,
+  selectWallet,
+  startWalletDiscovery,
+  subscribeWallets,
+} from '../utils/walletDiscovery';
+import { restoreRememberedWallet } from '../utils/walletSession';
 
 export const useWallet = () => {
   const [account, setAccount] = useState<string>('');
   const [chainId, setChainId] = useState<string>('');
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string>('');
-  const [isMetaMaskAvailable, setIsMetaMaskAvailable] = useState(false);
-
-  // Check if MetaMask is installed
-  useEffect(() => {
-    // Some wallets inject ethereum shortly after page load; check on mount and on window load.
-    const check = () => setIsMetaMaskAvailable(isMetaMaskInstalled());
-    check();
 
-    // Also listen for the page `load` event (wallets sometimes inject after DOM is ready)
-    window.addEventListener('load', check);
+  // Installed wallets (EIP-6963 announcements, plus window.ethereum for wallets that don't announce)
+  const wallets = useSyncExternalStore(subscribeWallets, getWallets);
+  const selectedWallet = useSyncExternalStore(subscribeWallets, getSelectedWallet);
+  const isWalletAvailable = wallets.length > 0;
 
-    // As an extra fallback, re-check after a short timeout in case injection is delayed
-    const t = setTimeout(check, 500);
-
-    return () => {
-      window.removeEventListener('load', check);
-      clearTimeout(t);
-    };
+  useEffect(() => {
+    startWalletDiscovery();
   }, []);
 
-  // DISABLED: Auto-load existing connection on mount
-  // Users must manually connect each session for better UX
-  // useEffect(() => {
-  //   const loadAccount = async () => {
-  //     try {
-  //       const currentAccount = await getCurrentAccount();
-  //       if (currentAccount) {
-  //         setAccount(currentAccount);
-  //         localStorage.setItem('walletAddress', currentAccount);
-  //         
-  //         // Get chain ID
-  //         const currentChainId = await getChainId();
-  //         setChainId(currentChainId);
-  //       }
-  //     } catch (err) {
-  //       console.error('Error loading account:', err);
-  //     }
-  //   };
-  //
-  //   if (isMetaMaskAvailable) {
-  //     loadAccount();
-  //   }
-  // }, [isMetaMaskAvailable]);
-
   // Handle account changes
   useEffect(() => {
     const handleAccountsChanged = (accounts: string[]) => {
       if (accounts.length === 0) {
         // User disconnected wallet
         setAccount('');
-        localStorage.removeItem('walletAddress');
       } else if (accounts[0] !== account) {
         // User switched account
         setAccount(accounts[0]);
-        localStorage.setItem('walletAddress', accounts[0]);
       }
     };
 
+    // Reads go through the RPC provider and signers are created per call, so no reload is needed
     const handleChainChanged = (newChainId: string) => {
       setChainId(newChainId);
-      // Reload page on network change (recommended by MetaMask)
-      window.location.reload();
     };
 
-    if (isMetaMaskAvailable) {
-      onAccountsChanged(handleAccountsChanged);
-      onChainChanged(handleChainChanged);
+    // Re-attached whenever another wallet is picked
+    if (isWalletAvailable) {
+      const unsubscribeAccounts = onAccountsChanged(handleAccountsChanged);
+      const unsubscribeChain = onChainChanged(handleChainChanged);
 
       return () => {
-        removeAccountsListener(handleAccountsChanged);
-        removeChainListener(handleChainChanged);
+        unsubscribeAccounts();
+        unsubscribeChain();
       };
     }
-  }, [account, isMetaMaskAvailable]);
+  }, [account, isWalletAvailable, selectedWallet]);
+
+  // Connect wallet function; pass the rdns of the wallet picked in the UI.
+  // Resolves with the connected account (undefined if no wallet could be used).
+  const connect = useCallback(async (rdns?: string): Promise<string | undefined> => {
+    if (!isWalletAvailable) {
+      setError('No browser wallet found. Please install a wallet extension to continue.');
+      return;
+    }
 
-  // Connect wallet function
-  const connect = useCallback(async () => {
-    if (!isMetaMaskAvailable) {
-      setError('MetaMask is not installed. Please install MetaMask to continue.');
+    // Without an explicit pick, use the remembered wallet or the only one installed
+    const target = rdns
+      ?? getSelectedWallet()?.info.rdns
+      ?? (wallets.length === 1 ? wallets[0].info.rdns : null);
+    if (!target) {
+      setError('Please choose a wallet to connect.');
       return;
     }
+    selectWallet(target);
 
     setIsConnecting(true);
     setError('');
@@ -104,33 +84,42 @@ export const useWallet = () => {
     try {
       const connectedAccount = await connectWallet();
       setAccount(connectedAccount);
-      localStorage.setItem('walletAddress', connectedAccount);
 
-      // Get chain ID and ensure we're on Sepolia
+      // Get chain ID and ensure we're on the target network
       const currentChainId = await getChainId();
       setChainId(currentChainId);
       
-      // Check and switch to Sepolia if needed
+      // Check and switch networks if needed
       try {
-        await ensureSepoliaNetwork();
-        console.log('✅ Connected to Sepolia network');
+        await ensureNetwork();
+        console.log(`✅ Connected to ${getTargetNetwork().chainName}`);
       } catch (networkError: any) {
         console.warn('⚠️ Network switch failed:', networkError.message);
         // Don't throw here - let the app handle network issues later
         // This allows users to connect even if they reject the network switch
       }
+      return connectedAccount;
     } catch (err: any) {
       setError(err.message || 'Failed to connect wallet');
       throw err;
     } finally {
       setIsConnecting(false);
     }
-  }, [isMetaMaskAvailable]);
+  }, [isWalletAvailable, wallets]);
+
+  // Reconnect a remembered wallet without prompting; resolves with the account or null
+  const restore = useCallback(async (): Promise<string | null> => {
+    const restoredAccount = await restoreRememberedWallet();
+    if (restoredAccount) {
+      setAccount(restoredAccount);
+      setChainId(await getChainId());
+    }
+    return restoredAccount;
+  }, []);
 
   // Disconnect wallet function
   const disconnect = useCallback(() => {
     setAccount('');
-    localStorage.removeItem('walletAddress');
   }, []);
 
   return {
@@ -139,8 +128,11 @@ export const useWallet = () => {
     isConnecting,
     isConnected: !!account,
     error,
-    isMetaMaskAvailable,
+    isWalletAvailable,
+    wallets,
+    selectedWallet,
     connect,
+    restore,
     disconnect,
   };
 };
@@ -0,0 +1,27 @@
+import { useSyncExternalStore, useMemo } from 'react';
+import {
+  WorkflowRun,
+  getWorkflows,
+  subscribeWorkflows,
+  resumeWorkflow,
+  skipWorkflowStep,
+  dismissWorkflow,
+} from '../utils/workflows';
+
+export const useWorkflows = () => {
+  const workflows = useSyncExternalStore(subscribeWorkflows, getWorkflows);
+
+  // Runs still shown in the progress queue
+  const visible: WorkflowRun[] = useMemo(
+    () => workflows.filter((run) => !run.dismissed),
+    [workflows]
+  );
+
+  return {
+    workflows,
+    visible,
+    resume: resumeWorkflow,
+    skip: skipWorkflowStep,
+    dismiss: dismissWorkflow,
+  };
+};
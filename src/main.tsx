@@ -1,7 +1,15 @@
 
   import { createRoot } from "react-dom/client";
   import App from "./App.tsx";
+  import { WalletProvider } from "./contexts/WalletContext";
+  import { startDevSigner } from "./utils/devSigner";
   import "./index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
-  
\ No newline at end of file
+  // No-op unless this is a dev build targeting a local chain with VITE_DEV_MNEMONIC set
+  startDevSigner();
+
+  createRoot(document.getElementById("root")!).render(
+    <WalletProvider>
+      <App />
+    </WalletProvider>
+  );
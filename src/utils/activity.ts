@@ -0,0 +1,215 @@
+import { fetchRegistryEvents, addressTopic, assetIdTopic, RegistryEvent, RegistryEventName } from './indexer';
+import { compareEvents } from './permissions';
+import { getReadProvider } from './web3';
+import { toRegistryError } from './errors';
+
+export interface ActivityEntry {
+  key: string; // blockNumber:logIndex
+  action: RegistryEventName;
+  assetId: number;
+  direction: 'outgoing' | 'incoming'; // outgoing: the wallet sent the transaction
+  counterparty: string | null; // The other address involved, if any
+  description?: string; // Usage log text
+  blockNumber: number;
+  timestamp: number | null; // Unix seconds; null if the block could not be loaded
+  transactionHash: string;
+  gasCost: bigint | null; // wei; null when someone else paid for the transaction
+  hasDetails: boolean; // False if the receipt could not be loaded (no sender or gas)
+}
+
+interface ReceiptDetails {
+  from: string;
+  gasCost: bigint;
+}
+
+// Receipt and block requests in flight at once; public RPCs rate-limit bursts
+const DETAIL_CONCURRENCY = 6;
+
+// Mined transactions and blocks never change, so they are cached for the session
+const receiptCache = new Map<string, Promise<ReceiptDetails>>();
+const blockTimestampCache = new Map<number, Promise<number>>();
+
+const cached = <K, V>(cache: Map<K, Promise<V>>, key: K, load: () => Promise<V>): Promise<V> => {
+  const existing = cache.get(key);
+  if (existing) return existing;
+
+  const value = load();
+  value.catch(() => cache.delete(key));
+  cache.set(key, value);
+  return value;
+};
+
+const loadReceipt = (hash: string): Promise<ReceiptDetails> =>
+  cached(receiptCache, hash, async () => {
+    const receipt = await getReadProvider().getTransactionReceipt(hash);
+    if (!receipt) {
+      throw new Error(`Transaction ${hash} is not available from the RPC`);
+    }
+    return { from: receipt.from, gasCost: receipt.gasUsed * receipt.gasPrice };
+  });
+
+const loadBlockTimestamp = (blockNumber: number): Promise<number> =>
+  cached(blockTimestampCache, blockNumber, async () => {
+    const block = await getReadProvider().getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} is not available from the RPC`);
+    }
+    return block.timestamp;
+  });
+
+/**
+ * Load a value per key with at most `limit` requests in flight. Keys that fail are left out.
+ */
+const loadLimited = async <K, V>(keys: K[], limit: number, load: (key: K) => Promise<V>): Promise<Map<K, V>> => {
+  const results = new Map<K, V>();
+  let next = 0;
+  const worker = async () => {
+    while (next < keys.length) {
+      const key = keys[next++];
+      try {
+        results.set(key, await load(key));
+      } catch (error) {
+        console.warn(`Could not load activity details for ${key}:`, error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, keys.length) }, worker));
+  return results;
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Whether the address appears in the event's own fields
+ */
+const involves = (event: RegistryEvent, address: string): boolean => {
+  switch (event.name) {
+    case 'AssetRegistered':
+      return sameAddress(event.author, address) || sameAddress(event.owner, address);
+    case 'OwnershipTransferred':
+      return sameAddress(event.oldOwner, address) || sameAddress(event.newOwner, address);
+    case 'PermissionGranted':
+    case 'PermissionRevoked':
+      return sameAddress(event.grantee, address);
+    case 'UsageLogged':
+      return sameAddress(event.actor, address);
+  }
+};
+
+/**
+ * Direction from the event fields alone, for rows whose receipt could not be loaded
+ */
+const directionFromEvent = (event: RegistryEvent, address: string): ActivityEntry['direction'] => {
+  switch (event.name) {
+    case 'AssetRegistered':
+      return sameAddress(event.author, address) ? 'outgoing' : 'incoming';
+    case 'OwnershipTransferred':
+      return sameAddress(event.oldOwner, address) ? 'outgoing' : 'incoming';
+    case 'PermissionGranted':
+    case 'PermissionRevoked':
+      return 'incoming';
+    case 'UsageLogged':
+      return 'outgoing';
+  }
+};
+
+/**
+ * The address on the other side of an event, from the wallet's point of view
+ */
+const getCounterparty = (event: RegistryEvent, address: string, sender: string | null): string | null => {
+  const other = (candidate: string) => (sameAddress(candidate, address) ? null : candidate);
+  switch (event.name) {
+    case 'AssetRegistered':
+      return other(sameAddress(event.author, address) ? event.owner : event.author);
+    case 'OwnershipTransferred':
+      return sameAddress(event.oldOwner, address) ? event.newOwner : event.oldOwner;
+    case 'PermissionGranted':
+    case 'PermissionRevoked':
+      return sameAddress(event.grantee, address) ? (sender && other(sender)) : event.grantee;
+    case 'UsageLogged':
+      return other(event.actor);
+  }
+};
+
+/**
+ * Every registry event tied to an address, newest first.
+ * Uses the indexed topics: author/old owner/grantee/actor (topic 2) and owner/new owner (topic 3)
+ * match the address directly; grants and revokes the wallet made are found through the assets it owned.
+ */
+export const fetchWalletActivity = async (address: string, fromBlock: number): Promise<ActivityEntry[]> => {
+  try {
+    const topic = addressTopic(address);
+    const toBlock = await getReadProvider().getBlockNumber();
+
+    const [asSubject, asOwner] = await Promise.all([
+      fetchRegistryEvents(fromBlock, toBlock, { indexedTopics: [null, topic] }),
+      fetchRegistryEvents(fromBlock, toBlock, {
+        eventNames: ['AssetRegistered', 'OwnershipTransferred'],
+        indexedTopics: [null, null, topic],
+      }),
+    ]);
+
+    // Assets the wallet owned at some point; their grants and revokes may have been sent by it
+    const ownedAssetIds = Array.from(new Set(
+      [...asSubject.events, ...asOwner.events]
+        .filter((event) =>
+          (event.name === 'AssetRegistered' && sameAddress(event.owner, address)) ||
+          (event.name === 'OwnershipTransferred' && (sameAddress(event.newOwner, address) || sameAddress(event.oldOwner, address)))
+        )
+        .map((event) => event.assetId)
+    ));
+
+    const asManager = ownedAssetIds.length > 0
+      ? await fetchRegistryEvents(fromBlock, toBlock, {
+          eventNames: ['PermissionGranted', 'PermissionRevoked'],
+          indexedTopics: [ownedAssetIds.map(assetIdTopic)],
+        })
+      : { events: [] };
+
+    const byKey = new Map<string, RegistryEvent>();
+    [...asSubject.events, ...asOwner.events, ...asManager.events].forEach((event) =>
+      byKey.set(`${event.blockNumber}:${event.logIndex}`, event)
+    );
+    const events = Array.from(byKey.values()).sort(compareEvents);
+
+    // One receipt per transaction and one block per block number (usage events carry their own time).
+    // A failed lookup only blanks the details of the rows that needed it.
+    const hashes = Array.from(new Set(events.map((event) => event.transactionHash)));
+    const blockNumbers = Array.from(new Set(
+      events.filter((event) => event.name !== 'UsageLogged').map((event) => event.blockNumber)
+    ));
+    const receipts = await loadLimited(hashes, DETAIL_CONCURRENCY, loadReceipt);
+    const timestamps = await loadLimited(blockNumbers, DETAIL_CONCURRENCY, loadBlockTimestamp);
+
+    const entries = events.map((event): ActivityEntry | null => {
+      const receipt = receipts.get(event.transactionHash);
+
+      // Grants and revokes on owned assets only count if this wallet sent them;
+      // without a receipt that can't be confirmed, so those rows are left out
+      if (!involves(event, address) && !(receipt && sameAddress(receipt.from, address))) return null;
+
+      const direction = receipt
+        ? (sameAddress(receipt.from, address) ? 'outgoing' : 'incoming')
+        : directionFromEvent(event, address);
+
+      return {
+        key: `${event.blockNumber}:${event.logIndex}`,
+        action: event.name,
+        assetId: event.assetId,
+        direction,
+        counterparty: getCounterparty(event, address, receipt?.from ?? null),
+        description: event.name === 'UsageLogged' ? event.description : undefined,
+        blockNumber: event.blockNumber,
+        timestamp: event.name === 'UsageLogged' ? event.timestamp : timestamps.get(event.blockNumber) ?? null,
+        transactionHash: event.transactionHash,
+        gasCost: receipt && direction === 'outgoing' ? receipt.gasCost : null,
+        hasDetails: !!receipt,
+      };
+    });
+
+    return entries.filter((entry): entry is ActivityEntry => entry !== null).reverse();
+  } catch (error: any) {
+    console.error('Error loading wallet activity:', error);
+    throw toRegistryError(error, 'Failed to load wallet activity');
+  }
+};
@@ -0,0 +1,270 @@
+import { getAddress, isAddress } from 'ethers';
+
+export interface Contact {
+  address: string; // Checksummed; one contact per address
+  name: string;
+  tags: string[];
+  notes: string;
+  createdAt: number; // ms
+  updatedAt: number; // ms
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  invalid: string[]; // Rows or entries that had no valid address or name
+}
+
+export type AddressBookFormat = 'json' | 'csv';
+
+const STORAGE_KEY = 'registry_address_book';
+
+const CSV_COLUMNS = ['name', 'address', 'tags', 'notes'] as const;
+
+/**
+ * Read the stored address book (empty if storage is unavailable or corrupt)
+ */
+const loadContacts = (): Contact[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Could not read the address book:', error);
+    return [];
+  }
+};
+
+let contacts: Contact[] = typeof window !== 'undefined' ? loadContacts() : [];
+const listeners = new Set<() => void>();
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(contacts));
+  } catch (error) {
+    console.warn('Could not store the address book:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const byName = (a: Contact, b: Contact) => a.name.localeCompare(b.name);
+
+const normalizeTags = (tags: string[] | string): string[] => {
+  const list = Array.isArray(tags) ? tags : tags.split(/[,;|]/);
+  return Array.from(new Set(list.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+};
+
+interface ContactInput {
+  address: string;
+  name: string;
+  tags?: string[] | string;
+  notes?: string;
+}
+
+/**
+ * Validate input into a contact, keeping the creation time of `existing`. Throws on an invalid address or empty name.
+ */
+const toContact = (input: ContactInput, existing?: Contact): Contact => {
+  if (!isAddress(input.address.trim())) {
+    throw new Error('Invalid wallet address format');
+  }
+  if (!input.name.trim()) {
+    throw new Error('Please enter a name');
+  }
+
+  const now = Date.now();
+  return {
+    address: getAddress(input.address.trim().toLowerCase()),
+    name: input.name.trim(),
+    tags: normalizeTags(input.tags ?? []),
+    notes: (input.notes ?? '').trim(),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Add a contact, or update the one with the same address. Throws on an invalid address or empty name.
+ * `replaces` is the address of the contact being edited; moving it onto another contact's address is refused.
+ */
+export const saveContact = (input: ContactInput & { replaces?: string }): Contact => {
+  const replaced = input.replaces ? findContact(input.replaces) : null;
+  const address = isAddress(input.address.trim()) ? getAddress(input.address.trim().toLowerCase()) : '';
+  const existing = contacts.find((contact) => contact.address === address);
+
+  if (replaced && existing && existing.address !== replaced.address) {
+    throw new Error(`This address is already saved as ${existing.name}`);
+  }
+
+  const contact = toContact(input, existing ?? replaced ?? undefined);
+  contacts = [
+    ...contacts.filter((c) => c.address !== contact.address && c.address !== replaced?.address),
+    contact,
+  ].sort(byName);
+  persist();
+  return contact;
+};
+
+export const removeContact = (address: string) => {
+  contacts = contacts.filter((contact) => contact.address.toLowerCase() !== address.toLowerCase());
+  persist();
+};
+
+/**
+ * All contacts, sorted by name (stable reference between changes)
+ */
+export const getContacts = (): Contact[] => contacts;
+
+/**
+ * Get notified when the address book changes. Returns an unsubscribe function.
+ */
+export const subscribeContacts = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const findContact = (address: string): Contact | null =>
+  contacts.find((contact) => contact.address.toLowerCase() === address.toLowerCase()) ?? null;
+
+/**
+ * Contacts whose name, tag or address starts with (or name contains) the query
+ */
+export const searchContacts = (query: string, limit = 8): Contact[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return contacts.slice(0, limit);
+
+  return contacts
+    .filter((contact) =>
+      contact.name.toLowerCase().includes(q) ||
+      contact.tags.some((tag) => tag.startsWith(q)) ||
+      contact.address.toLowerCase().startsWith(q)
+    )
+    .slice(0, limit);
+};
+
+// CSV fields are quoted when they contain a delimiter, quote or newline. Values a spreadsheet would
+// run as a formula (starting with =, +, - or @) are prefixed with ' so they open as text.
+const toCsvField = (raw: string): string => {
+  const value = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting)
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim()));
+};
+
+/**
+ * Serialize the address book; CSV has a name,address,tags,notes header with tags separated by ";"
+ */
+export const exportAddressBook = (format: AddressBookFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify(contacts.map(({ name, address, tags, notes }) => ({ name, address, tags, notes })), null, 2);
+  }
+
+  const lines = contacts.map((contact) =>
+    [contact.name, contact.address, contact.tags.join(';'), contact.notes].map(toCsvField).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...lines].join('\n');
+};
+
+/**
+ * Merge contacts from an exported file; entries with a known address update that contact.
+ * The merged book is stored once, after every entry has been checked.
+ */
+export const importAddressBook = (text: string, format: AddressBookFormat): ImportResult => {
+  let records: unknown[];
+
+  if (format === 'json') {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Expected a JSON array of contacts');
+    }
+    records = parsed;
+  } else {
+    const rows = parseCsv(text);
+    const header = rows[0]?.map((column) => column.trim().toLowerCase()) ?? [];
+    const hasHeader = header.includes('address');
+    // Without a header row, columns are assumed to be in export order
+    const columns = hasHeader ? header : [...CSV_COLUMNS];
+    // Undo the formula escaping added on export
+    records = (hasHeader ? rows.slice(1) : rows).map((values) =>
+      Object.fromEntries(columns.map((column, index) => [column, (values[index] ?? '').replace(/^'(?=[=+\-@])/, '')]))
+    );
+  }
+
+  const result: ImportResult = { added: 0, updated: 0, invalid: [] };
+  const merged = new Map(contacts.map((contact) => [contact.address, contact]));
+
+  for (const entry of records) {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      result.invalid.push(JSON.stringify(entry));
+      continue;
+    }
+
+    const record = entry as { name?: unknown; address?: unknown; tags?: unknown; notes?: unknown };
+    const address = typeof record.address === 'string' ? record.address : '';
+    const name = typeof record.name === 'string' ? record.name : '';
+    try {
+      const existing = isAddress(address.trim()) ? merged.get(getAddress(address.trim().toLowerCase())) : undefined;
+      const contact = toContact(
+        {
+          address,
+          name,
+          tags: Array.isArray(record.tags) ? record.tags.map(String) : typeof record.tags === 'string' ? record.tags : [],
+          notes: typeof record.notes === 'string' ? record.notes : '',
+        },
+        existing
+      );
+      merged.set(contact.address, contact);
+      if (existing) result.updated++;
+      else result.added++;
+    } catch {
+      result.invalid.push(name || address || JSON.stringify(record));
+    }
+  }
+
+  if (result.added > 0 || result.updated > 0) {
+    contacts = Array.from(merged.values()).sort(byName);
+    persist();
+  }
+  return result;
+};
@@ -1,80 +1,60 @@
-import { viewAsset, getAllUsageEntries, hasPermission, getAssetPermissions } from './contract';
-import { fetchFromIPFS } from './ipfs';
-import { Asset, UsageLog } from '../App';
+import { ZeroAddress } from 'ethers';
+import { indexRegistry, indexAsset, RegistryState, IndexedAsset } from './indexer';
+import { listAccessHolders } from './permissions';
+import { buildUsageLog, toUsageLogs } from './usageLogService';
+import { Asset } from '../App';
 
 /**
- * Load all assets from the blockchain by querying sequential IDs
+ * Load all assets from the blockchain by replaying registry events
  */
 export async function loadAllAssets(): Promise<Asset[]> {
-  const assets: Asset[] = [];
-  let assetId = 1;
+  console.log('Indexing assets from registry events...');
   
-  console.log('Loading assets from blockchain...');
-  
-  while (true) {
-    try {
-      console.log(`Querying asset ID ${assetId}...`);
-      const assetData = await viewAsset(assetId);
-      
-      // Check if asset data is valid (has an owner address)
-      if (!assetData.owner || assetData.owner === '0x0000000000000000000000000000000000000000') {
-        console.log(`Asset ${assetId} does not exist (owner is zero address)`);
-        break;
-      }
-      
-      console.log(`Asset ${assetId} found:`, assetData);
-      
-      // Use contract data directly (no separate metadata file)
-      // The assetURI points to the actual file, not metadata JSON
-      const metadata = {
-        name: assetData.name,
-        type: mapAssetType(assetData.assetType),
-        description: assetData.description,
-        createdAt: new Date(assetData.creationTimestamp * 1000).toISOString().split('T')[0]
-      };
-      
-      console.log(`Using metadata from contract for asset ${assetId}`);
-      
-      // Fetch usage logs and permissions
-      const usageLogs = await loadUsageLogs(assetId);
-      const permissions = await getAssetPermissions(assetId);
-      
-      const asset: Asset = {
-        id: assetId.toString(),
-        name: metadata.name || assetData.name,
-        type: metadata.type || mapAssetType(assetData.assetType),
-        description: metadata.description || assetData.description,
-        author: assetData.author,
-        owner: assetData.owner,
-        createdAt: metadata.createdAt || new Date(assetData.creationTimestamp * 1000).toISOString().split('T')[0],
-        permissions: permissions, // Load actual permissions from blockchain
-        usageLogs
-      };
-      
-      // Store IPFS URI for download functionality
-      (asset as any).assetURI = assetData.assetURI;
-      
-      assets.push(asset);
-      assetId++;
-      
-    } catch (error: any) {
-      // No more assets or asset doesn't exist
-      const errorMessage = error?.message || String(error);
-      console.log(`Asset ${assetId} does not exist. Total assets found: ${assets.length}`);
-      
-      if (error.code === 'BAD_DATA' || 
-          errorMessage.includes('could not decode result data') ||
-          errorMessage.includes('Asset does not exist') ||
-          errorMessage.includes('execution reverted')) {
-        console.log('No more assets exist on blockchain');
-      }
-      break;
-    }
-  }
+  const state = await indexRegistry({
+    onProgress: ({ toBlock, latestBlock, eventsFound }) => {
+      console.log(`Scanned logs up to block ${toBlock}/${latestBlock} (${eventsFound} events)`);
+    },
+  });
   
+  const assets = buildAssets(state);
+  console.log(`Total assets found: ${assets.length}`);
   return assets;
 }
 
+/**
+ * Convert indexed registry state into the UI asset shape, ordered by ID
+ */
+export function buildAssets(state: RegistryState): Asset[] {
+  return Object.values(state.assets)
+    .filter(indexed => indexed.details && indexed.owner && indexed.owner !== ZeroAddress)
+    .sort((a, b) => a.id - b.id)
+    .map(toAsset);
+}
+
+/**
+ * Convert a single indexed asset into the UI asset shape
+ */
+function toAsset(indexed: IndexedAsset): Asset {
+  const details = indexed.details!;
+  
+  const asset: Asset = {
+    id: indexed.id.toString(),
+    name: details.name,
+    type: mapAssetType(details.assetType),
+    description: details.description,
+    author: indexed.author || details.author,
+    owner: indexed.owner,
+    createdAt: new Date(details.creationTimestamp * 1000).toISOString().split('T')[0],
+    permissions: listAccessHolders(indexed), // Owner always has permission
+    usageLogs: toUsageLogs(buildUsageLog(indexed.id, indexed.usage).entries)
+  };
+  
+  // Store IPFS URI for download functionality
+  (asset as any).assetURI = details.assetURI;
+  
+  return asset;
+}
+
 /**
  * Map blockchain asset type string to UI type
  */
@@ -123,35 +103,14 @@ export async function loadAccessibleAssets(walletAddress: string): Promise<Asset
 export async function loadAsset(assetId: number): Promise<Asset | null> {
   try {
     console.log(`Loading single asset ${assetId}...`);
-    const assetData = await viewAsset(assetId);
-    
-    // Use contract data directly
-    const metadata = {
-      name: assetData.name,
-      type: mapAssetType(assetData.assetType),
-      description: assetData.description,
-      createdAt: new Date(assetData.creationTimestamp * 1000).toISOString().split('T')[0]
-    };
-    
-    const usageLogs = await loadUsageLogs(assetId);
-    const permissions = await getAssetPermissions(assetId);
+    const indexed = await indexAsset(assetId);
     
-    const asset: Asset = {
-      id: assetId.toString(),
-      name: metadata.name || assetData.name,
-      type: metadata.type || mapAssetType(assetData.assetType),
-      description: metadata.description || assetData.description,
-      author: assetData.author,
-      owner: assetData.owner,
-      createdAt: metadata.createdAt || new Date(assetData.creationTimestamp * 1000).toISOString().split('T')[0],
-      permissions: permissions,
-      usageLogs
-    };
-    
-    // Store IPFS URI
-    (asset as any).assetURI = assetData.assetURI;
+    if (!indexed || !indexed.details) {
+      console.log(`Asset ${assetId} does not exist`);
+      return null;
+    }
     
-    return asset;
+    return toAsset(indexed);
   } catch (error) {
     console.error(`Failed to load asset ${assetId}:`, error);
     return null;
@@ -167,21 +126,3 @@ async function fetchAssetMetadata(assetURI: string): Promise<any> {
   // In a full implementation, you'd check if the file is JSON and parse it
   throw new Error('Metadata from IPFS not implemented, using contract data');
 }
-
-/**
- * Load usage logs for an asset
- */
-async function loadUsageLogs(assetId: number): Promise<UsageLog[]> {
-  try {
-    const entries = await getAllUsageEntries(assetId);
-    return entries.map((entry, index) => ({
-      id: `${assetId}-${index}`,
-      user: entry.actor, // Note: contract uses 'actor' not 'user'
-      timestamp: new Date(Number(entry.timestamp) * 1000).toLocaleString(),
-      description: entry.description
-    }));
-  } catch (error) {
-    console.warn(`No usage logs found for asset ${assetId}`);
-    return [];
-  }
-}
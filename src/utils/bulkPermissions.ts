@@ -0,0 +1,94 @@
+import { getAddress, isAddress } from 'ethers';
+import { getSharedWith } from './permissions';
+import type { WorkflowRun } from './workflows';
+
+export type BulkMode = 'grant' | 'revoke';
+
+export interface ParsedAddressList {
+  addresses: string[]; // Checksummed, unique, in input order
+  invalid: string[]; // Tokens that look like addresses but are not valid
+  duplicates: string[]; // Repeated entries (dropped from addresses)
+}
+
+export interface BulkPlan {
+  toApply: string[]; // Addresses that need a transaction
+  skipped: { address: string; reason: string }[]; // Already in the requested state
+}
+
+export type BulkItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface BulkItem {
+  address: string;
+  status: BulkItemStatus;
+  txHash?: string;
+  error?: string;
+}
+
+/**
+ * Extract addresses from pasted text or a CSV file.
+ * Any column may hold the address; header rows and other columns are ignored.
+ */
+export const parseAddressList = (input: string): ParsedAddressList => {
+  const tokens = input
+    .split(/[\s,;]+/)
+    .map((token) => token.trim().replace(/^["']|["']$/g, ''))
+    .filter((token) => /^0x/i.test(token));
+
+  const seen = new Set<string>();
+  const result: ParsedAddressList = { addresses: [], invalid: [], duplicates: [] };
+
+  for (const token of tokens) {
+    if (!isAddress(token)) {
+      result.invalid.push(token);
+      continue;
+    }
+    const address = getAddress(token.toLowerCase());
+    if (seen.has(address)) {
+      result.duplicates.push(address);
+      continue;
+    }
+    seen.add(address);
+    result.addresses.push(address);
+  }
+
+  return result;
+};
+
+/**
+ * Drop addresses that are already in the requested state (current grantees, the owner)
+ */
+export const planBulkChange = (
+  mode: BulkMode,
+  addresses: string[],
+  asset: { owner: string; permissions: string[] }
+): BulkPlan => {
+  const owner = asset.owner.toLowerCase();
+  const grantees = new Set(getSharedWith(asset).map((address) => address.toLowerCase()));
+  const plan: BulkPlan = { toApply: [], skipped: [] };
+
+  for (const address of addresses) {
+    const normalized = address.toLowerCase();
+    if (normalized === owner) {
+      plan.skipped.push({ address, reason: 'owner' });
+    } else if (mode === 'grant' && grantees.has(normalized)) {
+      plan.skipped.push({ address, reason: 'already has access' });
+    } else if (mode === 'revoke' && !grantees.has(normalized)) {
+      plan.skipped.push({ address, reason: 'has no access' });
+    } else {
+      plan.toApply.push(address);
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Per-address progress of a bulk run (a bulkPermissions workflow: one step per address, then the summary log)
+ */
+export const toBulkItems = (run: WorkflowRun): BulkItem[] =>
+  run.steps.slice(0, -1).map((step) => ({
+    address: String(step.call.args[1]),
+    status: step.status === 'pending' ? 'queued' : step.status,
+    txHash: step.txHash,
+    error: step.error,
+  }));
@@ -1,5 +1,9 @@
-import { Contract } from 'ethers';
-import { getContract, getReadOnlyContract } from './web3';
+import { getContract } from './web3';
+import { batchedRead } from './multicall';
+import { toRegistryError } from './errors';
+import { trackTransaction, setTransactionAssetId } from './transactionManager';
+import { simulateWrite } from './simulation';
+import type { AssetRegisteredEventArgs } from '../contracts/DigitalAssetRegistry.types';
 
 export interface AssetData {
   id: number;
@@ -30,14 +34,17 @@ export const registerAsset = async (
   try {
     const contract = await getContract();
     
+    // Simulate first so a revert surfaces before the wallet asks for a signature
+    await simulateWrite(contract, { method: 'registerAsset', args: [name, assetType, description, assetURI] });
+
     // Call the registerAsset function
     const tx = await contract.registerAsset(name, assetType, description, assetURI);
     
-    // Wait for transaction to be mined
-    const receipt = await tx.wait();
+    // Wait for transaction to be mined (tracked so it survives a reload)
+    const receipt = await trackTransaction(tx, 'registerAsset', null, { name, assetType });
     
     // Extract assetId from the event
-    const event = receipt.logs.find((log: any) => {
+    const event = receipt.logs.find((log) => {
       try {
         const parsed = contract.interface.parseLog(log);
         return parsed?.name === 'AssetRegistered';
@@ -49,7 +56,8 @@ export const registerAsset = async (
     let assetId = 0;
     if (event) {
       const parsed = contract.interface.parseLog(event);
-      assetId = Number(parsed?.args[0]);
+      assetId = Number((parsed?.args as unknown as AssetRegisteredEventArgs | undefined)?.assetId ?? 0);
+      setTransactionAssetId(receipt.hash, assetId);
     }
     
     return {
@@ -58,7 +66,7 @@ export const registerAsset = async (
     };
   } catch (error: any) {
     console.error('Error registering asset:', error);
-    throw new Error(error.reason || error.message || 'Failed to register asset');
+    throw toRegistryError(error, 'Failed to register asset');
   }
 };
 
@@ -67,23 +75,21 @@ export const registerAsset = async (
  */
 export const viewAsset = async (assetId: number): Promise<AssetData> => {
   try {
-    const contract = await getReadOnlyContract();
-    
-    const result = await contract.viewAsset(assetId);
+    const result = await batchedRead('viewAsset', [assetId]);
     
     return {
-      id: Number(result[0]),
-      name: result[1],
-      assetType: result[2],
-      description: result[3],
-      assetURI: result[4],
-      author: result[5],
-      owner: result[6],
-      creationTimestamp: Number(result[7]),
+      id: Number(result.id),
+      name: result.name,
+      assetType: result.assetType,
+      description: result.description,
+      assetURI: result.assetURI,
+      author: result.author,
+      owner: result.owner,
+      creationTimestamp: Number(result.creationTimestamp),
     };
   } catch (error: any) {
     console.error('Error viewing asset:', error);
-    throw new Error(error.reason || error.message || 'Failed to view asset');
+    throw toRegistryError(error, 'Failed to view asset');
   }
 };
 
@@ -97,13 +103,14 @@ export const transferOwnership = async (
   try {
     const contract = await getContract();
     
+    await simulateWrite(contract, { method: 'transferOwnership', args: [assetId, newOwner] });
     const tx = await contract.transferOwnership(assetId, newOwner);
-    const receipt = await tx.wait();
+    const receipt = await trackTransaction(tx, 'transferOwnership', assetId, { newOwner });
     
     return receipt.hash;
   } catch (error: any) {
     console.error('Error transferring ownership:', error);
-    throw new Error(error.reason || error.message || 'Failed to transfer ownership');
+    throw toRegistryError(error, 'Failed to transfer ownership');
   }
 };
 
@@ -117,13 +124,14 @@ export const grantPermission = async (
   try {
     const contract = await getContract();
     
+    await simulateWrite(contract, { method: 'grantPermission', args: [assetId, grantee] });
     const tx = await contract.grantPermission(assetId, grantee);
-    const receipt = await tx.wait();
+    const receipt = await trackTransaction(tx, 'grantPermission', assetId, { grantee });
     
     return receipt.hash;
   } catch (error: any) {
     console.error('Error granting permission:', error);
-    throw new Error(error.reason || error.message || 'Failed to grant permission');
+    throw toRegistryError(error, 'Failed to grant permission');
   }
 };
 
@@ -137,13 +145,14 @@ export const revokePermission = async (
   try {
     const contract = await getContract();
     
+    await simulateWrite(contract, { method: 'revokePermission', args: [assetId, grantee] });
     const tx = await contract.revokePermission(assetId, grantee);
-    const receipt = await tx.wait();
+    const receipt = await trackTransaction(tx, 'revokePermission', assetId, { grantee });
     
     return receipt.hash;
   } catch (error: any) {
     console.error('Error revoking permission:', error);
-    throw new Error(error.reason || error.message || 'Failed to revoke permission');
+    throw toRegistryError(error, 'Failed to revoke permission');
   }
 };
 
@@ -157,13 +166,14 @@ export const logUsage = async (
   try {
     const contract = await getContract();
     
+    await simulateWrite(contract, { method: 'logUsage', args: [assetId, usageDescription] });
     const tx = await contract.logUsage(assetId, usageDescription);
-    const receipt = await tx.wait();
+    const receipt = await trackTransaction(tx, 'logUsage', assetId, { usageDescription });
     
     return receipt.hash;
   } catch (error: any) {
     console.error('Error logging usage:', error);
-    throw new Error(error.reason || error.message || 'Failed to log usage');
+    throw toRegistryError(error, 'Failed to log usage');
   }
 };
 
@@ -175,9 +185,7 @@ export const hasPermission = async (
   userAddress: string
 ): Promise<boolean> => {
   try {
-    const contract = await getReadOnlyContract();
-    
-    return await contract.hasPermission(assetId, userAddress);
+    return await batchedRead('hasPermission', [assetId, userAddress]);
   } catch (error: any) {
     console.error('Error checking permission:', error);
     return false;
@@ -189,9 +197,7 @@ export const hasPermission = async (
  */
 export const getUsageCount = async (assetId: number): Promise<number> => {
   try {
-    const contract = await getReadOnlyContract();
-    
-    const count = await contract.usageCount(assetId);
+    const count = await batchedRead('usageCount', [assetId]);
     return Number(count);
   } catch (error: any) {
     console.error('Error getting usage count:', error);
@@ -207,18 +213,16 @@ export const viewUsageEntry = async (
   index: number
 ): Promise<UsageEntry> => {
   try {
-    const contract = await getReadOnlyContract();
-    
-    const result = await contract.viewUsageEntry(assetId, index);
+    const result = await batchedRead('viewUsageEntry', [assetId, index]);
     
     return {
-      actor: result[0],
-      timestamp: Number(result[1]),
-      description: result[2],
+      actor: result.actor,
+      timestamp: Number(result.timestamp),
+      description: result.description,
     };
   } catch (error: any) {
     console.error('Error viewing usage entry:', error);
-    throw new Error(error.reason || error.message || 'Failed to view usage entry');
+    throw toRegistryError(error, 'Failed to view usage entry');
   }
 };
 
@@ -228,116 +232,13 @@ export const viewUsageEntry = async (
 export const getAllUsageEntries = async (assetId: number): Promise<UsageEntry[]> => {
   try {
     const count = await getUsageCount(assetId);
-    const entries: UsageEntry[] = [];
-    
-    for (let i = 0; i < count; i++) {
-      const entry = await viewUsageEntry(assetId, i);
-      entries.push(entry);
-    }
     
-    return entries;
+    // Issued together so they go out as a single batched request
+    return await Promise.all(
+      Array.from({ length: count }, (_, i) => viewUsageEntry(assetId, i))
+    );
   } catch (error: any) {
     console.error('Error getting all usage entries:', error);
-    return [];
-  }
-};
-
-/**
- * Listen for contract events
- */
-export const listenToEvents = async (
-  eventName: string,
-  callback: (...args: any[]) => void
-): Promise<void> => {
-  try {
-    const contract = await getReadOnlyContract();
-    contract.on(eventName, callback);
-  } catch (error) {
-    console.error(`Error listening to ${eventName}:`, error);
-  }
-};
-
-/**
- * Remove event listener
- */
-export const removeEventListener = async (
-  eventName: string,
-  callback: (...args: any[]) => void
-): Promise<void> => {
-  try {
-    const contract = await getReadOnlyContract();
-    contract.off(eventName, callback);
-  } catch (error) {
-    console.error(`Error removing listener for ${eventName}:`, error);
-  }
-};
-
-/**
- * Get usage logs for an asset from blockchain events
- */
-export const getUsageLogs = async (assetId: number): Promise<Array<{
-  user: string;
-  description: string;
-  timestamp: number;
-}>> => {
-  try {
-    const contract = await getReadOnlyContract();
-    
-    // Query UsageLogged events for this asset
-    const filter = contract.filters.UsageLogged(assetId);
-    const events = await contract.queryFilter(filter);
-    
-    // Parse events into usage logs
-    const logs = events.map((event: any) => ({
-      user: event.args.user,
-      description: event.args.description,
-      timestamp: Number(event.args.timestamp)
-    }));
-    
-    return logs;
-  } catch (error: any) {
-    console.error('Error fetching usage logs:', error);
-    return [];
-  }
-};
-
-/**
- * Get permissions for an asset from blockchain events
- */
-export const getAssetPermissions = async (assetId: number): Promise<string[]> => {
-  try {
-    const contract = await getReadOnlyContract();
-    
-    // Get the asset to get owner
-    const asset = await contract.viewAsset(assetId);
-    const owner = asset.owner;
-    
-    // Query PermissionGranted and PermissionRevoked events
-    const grantedFilter = contract.filters.PermissionGranted(assetId);
-    const revokedFilter = contract.filters.PermissionRevoked(assetId);
-    
-    const grantedEvents = await contract.queryFilter(grantedFilter);
-    const revokedEvents = await contract.queryFilter(revokedFilter);
-    
-    // Build permission set
-    const permissions = new Set<string>([owner.toLowerCase()]); // Owner always has permission
-    
-    // Add granted permissions
-    grantedEvents.forEach((event: any) => {
-      permissions.add(event.args.grantee.toLowerCase());
-    });
-    
-    // Remove revoked permissions (but not owner)
-    revokedEvents.forEach((event: any) => {
-      const revoked = event.args.grantee.toLowerCase();
-      if (revoked !== owner.toLowerCase()) {
-        permissions.delete(revoked);
-      }
-    });
-    
-    return Array.from(permissions);
-  } catch (error: any) {
-    console.error('Error fetching permissions:', error);
-    return [];
+    throw toRegistryError(error, 'Failed to load usage entries');
   }
 };
@@ -0,0 +1,225 @@
+import { HDNodeWallet, Mnemonic, TransactionRequest, getBytes, isHexString } from 'ethers';
+import { config } from '../config/config';
+import { EthereumProvider, getReadProvider, getReadRpcUrl, getTargetNetwork } from './web3';
+import type { WalletInfo } from './walletDiscovery';
+
+export interface DevSignerState {
+  isEnabled: boolean; // True once the target chain has been verified as local
+  accounts: string[]; // Checksummed, in derivation order
+  activeIndex: number;
+}
+
+// Stable id, so a remembered dev signer is restored like any other wallet
+export const DEV_SIGNER_RDNS = 'local.dev-signer';
+
+const STORAGE_KEY = 'devSigner';
+
+// Chain ids of local development nodes: 31337 (Hardhat, Anvil) and 1337 (Ganache)
+const LOCAL_CHAIN_IDS = ['0x7a69', '0x539'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const info: WalletInfo = {
+  uuid: DEV_SIGNER_RDNS,
+  name: 'Dev Signer (local chain)',
+  icon: '',
+  rdns: DEV_SIGNER_RDNS,
+};
+
+let wallets: HDNodeWallet[] = [];
+let state: DevSignerState = { isEnabled: false, accounts: [], activeIndex: 0 };
+let isConnected = false;
+let started = false;
+const listeners = new Set<() => void>();
+const providerListeners = new Map<string, Set<(...args: any[]) => void>>();
+
+const emit = (event: string, ...args: any[]) => {
+  providerListeners.get(event)?.forEach((callback) => callback(...args));
+};
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ activeIndex: state.activeIndex, isConnected }));
+  } catch (error) {
+    console.warn('Could not store the dev signer account:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Whether the configured target is a local development chain: a local chain id AND a loopback RPC.
+ * Both come from build-time config, so a deployed build pointed at a public network never qualifies.
+ */
+export const isLocalTarget = (): boolean => {
+  const rpcUrl = getReadRpcUrl();
+  if (!rpcUrl || !LOCAL_CHAIN_IDS.includes(getTargetNetwork().chainId.toLowerCase())) {
+    return false;
+  }
+  try {
+    return LOOPBACK_HOSTS.includes(new URL(rpcUrl).hostname);
+  } catch {
+    return false;
+  }
+};
+
+const providerError = (code: number, message: string) => Object.assign(new Error(message), { code });
+
+const getActiveWallet = (): HDNodeWallet => {
+  if (!state.isEnabled) {
+    throw providerError(4900, 'The dev signer is disabled');
+  }
+  return wallets[state.activeIndex];
+};
+
+// eth_sendTransaction params are hex-encoded JSON-RPC fields; Wallet expects a TransactionRequest
+const toTransactionRequest = (tx: Record<string, any>): TransactionRequest => ({
+  to: tx.to,
+  data: tx.data,
+  value: tx.value,
+  nonce: tx.nonce != null ? Number(tx.nonce) : undefined,
+  gasLimit: tx.gas ?? tx.gasLimit,
+  gasPrice: tx.gasPrice,
+  maxFeePerGas: tx.maxFeePerGas,
+  maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+  type: tx.type != null ? Number(tx.type) : undefined,
+  accessList: tx.accessList,
+});
+
+const assertActiveAccount = (address: string | undefined) => {
+  const wallet = getActiveWallet();
+  if (address && address.toLowerCase() !== wallet.address.toLowerCase()) {
+    throw providerError(4100, `The dev signer is using ${wallet.address}, not ${address}`);
+  }
+  return wallet;
+};
+
+/**
+ * EIP-1193 provider backed by ethers Wallets: signing methods are answered locally,
+ * everything else is forwarded to the read RPC (the local node).
+ */
+const provider: EthereumProvider = {
+  request: async ({ method, params = [] }) => {
+    switch (method) {
+      case 'eth_requestAccounts':
+        getActiveWallet();
+        isConnected = true;
+        persist();
+        return [wallets[state.activeIndex].address];
+      case 'eth_accounts':
+        return state.isEnabled && isConnected ? [wallets[state.activeIndex].address] : [];
+      case 'eth_chainId':
+        return getTargetNetwork().chainId;
+      case 'wallet_switchEthereumChain':
+        if (params[0]?.chainId?.toLowerCase() !== getTargetNetwork().chainId.toLowerCase()) {
+          throw providerError(4902, 'The dev signer only works on the local chain');
+        }
+        return null;
+      case 'wallet_revokePermissions':
+        isConnected = false;
+        persist();
+        return null;
+      case 'personal_sign': {
+        const wallet = assertActiveAccount(params[1]);
+        return wallet.signMessage(isHexString(params[0]) ? getBytes(params[0]) : params[0]);
+      }
+      case 'eth_signTypedData_v4': {
+        const wallet = assertActiveAccount(params[0]);
+        const { domain, types, message } = JSON.parse(params[1]);
+        const { EIP712Domain: _domain, ...messageTypes } = types;
+        return wallet.signTypedData(domain, messageTypes, message);
+      }
+      case 'eth_sendTransaction': {
+        const wallet = assertActiveAccount(params[0]?.from);
+        const tx = await wallet.sendTransaction(toTransactionRequest(params[0]));
+        return tx.hash;
+      }
+      default:
+        return getReadProvider().send(method, params);
+    }
+  },
+  on: (event, callback) => {
+    if (!providerListeners.has(event)) providerListeners.set(event, new Set());
+    providerListeners.get(event)!.add(callback);
+  },
+  removeListener: (event, callback) => {
+    providerListeners.get(event)?.delete(callback);
+  },
+};
+
+const announce = () => {
+  window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: Object.freeze({ info, provider }) }));
+};
+
+/**
+ * Enable the dev signer if this is a dev build with VITE_DEV_MNEMONIC set and the target is a local chain.
+ * The node's reported chain id is checked before any key is derived; once enabled the signer
+ * announces itself over EIP-6963 and shows up next to the browser wallets.
+ */
+export const startDevSigner = async (): Promise<void> => {
+  if (started || typeof window === 'undefined' || !import.meta.env.DEV || !config.devSigner.mnemonic) return;
+  started = true;
+
+  if (!isLocalTarget()) {
+    console.warn(`⚠️ Dev signer disabled: ${getTargetNetwork().chainName} is not a local chain`);
+    return;
+  }
+
+  try {
+    const chainId: string = await getReadProvider().send('eth_chainId', []);
+    if (chainId.toLowerCase() !== getTargetNetwork().chainId.toLowerCase()) {
+      console.warn(`⚠️ Dev signer disabled: the node reports chain ${chainId}, expected ${getTargetNetwork().chainId}`);
+      return;
+    }
+
+    const mnemonic = Mnemonic.fromPhrase(config.devSigner.mnemonic.trim());
+    const readProvider = getReadProvider();
+    wallets = Array.from({ length: Math.max(1, config.devSigner.accountCount) }, (_, index) =>
+      HDNodeWallet.fromMnemonic(mnemonic, `m/44'/60'/0'/0/${index}`).connect(readProvider)
+    );
+  } catch (error) {
+    console.error('Could not start the dev signer:', error);
+    return;
+  }
+
+  let stored: { activeIndex?: number; isConnected?: boolean } = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    // Ignore a corrupt entry and start from the first account
+  }
+  const activeIndex = Number.isInteger(stored.activeIndex) && stored.activeIndex! < wallets.length ? stored.activeIndex! : 0;
+  isConnected = !!stored.isConnected;
+  state = { isEnabled: true, accounts: wallets.map((wallet) => wallet.address), activeIndex };
+  listeners.forEach((listener) => listener());
+
+  console.log(`🧪 Dev signer enabled with ${wallets.length} local accounts`);
+  window.addEventListener('eip6963:requestProvider', announce);
+  announce();
+};
+
+/**
+ * Sign with another derived account; the app follows through the accountsChanged event
+ */
+export const selectDevAccount = (index: number) => {
+  if (!state.isEnabled || index < 0 || index >= wallets.length || index === state.activeIndex) return;
+
+  state = { ...state, activeIndex: index };
+  persist();
+  if (isConnected) {
+    emit('accountsChanged', [wallets[index].address]);
+  }
+};
+
+/**
+ * Dev signer accounts and the one in use (stable reference between changes)
+ */
+export const getDevSignerState = (): DevSignerState => state;
+
+/**
+ * Get notified when the dev signer is enabled or switches accounts. Returns an unsubscribe function.
+ */
+export const subscribeDevSigner = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
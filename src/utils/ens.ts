@@ -0,0 +1,154 @@
+import { AbstractProvider, EnsPlugin, JsonRpcProvider, Network, getAddress, isAddress } from 'ethers';
+import { config } from '../config/config';
+import { getReadProvider, getReadRpcUrl, getTargetNetwork } from './web3';
+
+/**
+ * What the UI needs from ENS. The default implementation uses an ethers provider;
+ * tests and demos can swap in any other (see setEnsResolver / createStaticEnsResolver).
+ */
+export interface EnsResolver {
+  lookupAddress: (address: string) => Promise<string | null>; // Primary name, forward-verified
+  resolveName: (name: string) => Promise<string | null>;
+  getAvatar: (name: string) => Promise<string | null>; // Image URL
+}
+
+export interface EnsProfile {
+  name: string | null;
+  avatar: string | null;
+}
+
+// Names and avatars change rarely; misses are cached too so unnamed addresses are not re-queried.
+// Failed lookups are dropped from the cache and retried on the next request.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+const profileCache = new Map<string, CacheEntry<EnsProfile>>();
+const nameCache = new Map<string, CacheEntry<string | null>>();
+
+let ensProvider: AbstractProvider | null = null;
+let ensUnsupported = false; // Set when the chain has no ENS, to stop asking
+
+/**
+ * Provider used for ENS: a dedicated RPC, the read RPC with a custom registry, or the read provider
+ */
+const getEnsProvider = (): AbstractProvider => {
+  if (ensProvider) return ensProvider;
+
+  if (config.ens.rpcUrl) {
+    ensProvider = new JsonRpcProvider(config.ens.rpcUrl);
+  } else if (config.ens.registryAddress) {
+    const chainId = Number(getTargetNetwork().chainId);
+    const network = new Network(getTargetNetwork().chainName, chainId);
+    network.attachPlugin(new EnsPlugin(config.ens.registryAddress, chainId));
+    ensProvider = new JsonRpcProvider(getReadRpcUrl() ?? undefined, network, { staticNetwork: network });
+  } else {
+    ensProvider = getReadProvider();
+  }
+  return ensProvider;
+};
+
+/**
+ * Run an ENS call, treating "this network has no ENS" as a miss rather than an error.
+ * Other failures (timeouts, RPC errors) are rethrown so they are not cached as a miss.
+ */
+const withEns = async <T>(call: (provider: AbstractProvider) => Promise<T | null>): Promise<T | null> => {
+  if (ensUnsupported) return null;
+  try {
+    return await call(getEnsProvider());
+  } catch (error: any) {
+    if (error?.code === 'UNSUPPORTED_OPERATION') {
+      console.log('ℹ️ ENS is not available on this network');
+      ensUnsupported = true;
+    } else {
+      console.warn('ENS lookup failed:', error);
+      throw error;
+    }
+    return null;
+  }
+};
+
+const providerResolver: EnsResolver = {
+  // ethers checks the reverse record resolves back to the same address
+  lookupAddress: (address) => withEns((provider) => provider.lookupAddress(address)),
+  resolveName: (name) => withEns((provider) => provider.resolveName(name)),
+  getAvatar: (name) => withEns(async (provider) => {
+    const resolver = await provider.getResolver(name);
+    return resolver ? resolver.getAvatar() : null;
+  }),
+};
+
+let resolver: EnsResolver = providerResolver;
+
+/**
+ * Replace the resolver (null restores the provider-backed one); cached results are dropped
+ */
+export const setEnsResolver = (next: EnsResolver | null) => {
+  resolver = next ?? providerResolver;
+  profileCache.clear();
+  nameCache.clear();
+};
+
+/**
+ * In-memory resolver for tests and demos: name -> address (and optional avatar)
+ */
+export const createStaticEnsResolver = (
+  records: Record<string, { address: string; avatar?: string }>
+): EnsResolver => {
+  const entries = Object.entries(records).map(([name, record]) => ({ name: name.toLowerCase(), ...record }));
+  return {
+    lookupAddress: async (address) =>
+      entries.find((entry) => entry.address.toLowerCase() === address.toLowerCase())?.name ?? null,
+    resolveName: async (name) => {
+      const entry = entries.find((candidate) => candidate.name === name.toLowerCase());
+      return entry ? getAddress(entry.address) : null;
+    },
+    getAvatar: async (name) => entries.find((entry) => entry.name === name.toLowerCase())?.avatar ?? null,
+  };
+};
+
+const cached = <T>(cache: Map<string, CacheEntry<T>>, key: string, load: () => Promise<T>): Promise<T> => {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) return entry.value;
+
+  const value = load();
+  value.catch(() => cache.delete(key));
+  cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  return value;
+};
+
+/**
+ * Whether input looks like an ENS name rather than an address (e.g. alice.eth)
+ */
+export const isEnsName = (value: string): boolean => {
+  const trimmed = value.trim();
+  return !isAddress(trimmed) && /^[^\s.]+(\.[^\s.]+)+$/.test(trimmed);
+};
+
+/**
+ * Primary ENS name and avatar of an address (both null when it has none)
+ */
+export const lookupEnsProfile = (address: string): Promise<EnsProfile> =>
+  cached(profileCache, address.toLowerCase(), async () => {
+    const name = await resolver.lookupAddress(address);
+    // A broken avatar record or unreachable image host should not cost the name
+    const avatar = name
+      ? await resolver.getAvatar(name).catch((error) => {
+          console.warn(`Could not load the ENS avatar of ${name}:`, error);
+          return null;
+        })
+      : null;
+    return { name, avatar };
+  });
+
+/**
+ * Address an ENS name points to (null if it does not resolve)
+ */
+export const resolveEnsName = (name: string): Promise<string | null> =>
+  cached(nameCache, name.trim().toLowerCase(), async () => {
+    const address = await resolver.resolveName(name.trim());
+    return address ? getAddress(address) : null;
+  });
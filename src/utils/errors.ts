@@ -0,0 +1,145 @@
+export type RegistryErrorKind =
+  | 'user-rejected'
+  | 'insufficient-funds'
+  | 'wrong-network'
+  | 'account-mismatch'
+  | 'invalid-signature'
+  | 'contract-revert'
+  | 'asset-not-found'
+  | 'rpc-unavailable'
+  | 'ipfs-failure'
+  | 'unknown';
+
+// Default, actionable message for each kind
+export const ERROR_MESSAGES: Record<RegistryErrorKind, string> = {
+  'user-rejected': 'The request was cancelled in your wallet.',
+  'insufficient-funds': 'Your wallet does not have enough ETH to pay for this transaction and its gas.',
+  'wrong-network': 'Your wallet is connected to the wrong network. Please switch networks in MetaMask and try again.',
+  'account-mismatch': 'The account selected in your wallet is not the address you are using in this app. Switch accounts in your wallet and try again.',
+  'invalid-signature': 'The signature could not be verified for this address. Please sign in again.',
+  'contract-revert': 'The registry contract rejected this transaction.',
+  'asset-not-found': 'This asset does not exist on the registry.',
+  'rpc-unavailable': 'The blockchain RPC endpoint could not be reached. Check your connection or try again shortly.',
+  'ipfs-failure': 'The file could not be transferred to or from IPFS. Please try again.',
+  'unknown': 'Something went wrong. Please try again.',
+};
+
+/**
+ * Error raised by contract, web3 and IPFS helpers; components branch on `kind`
+ */
+export class RegistryError extends Error {
+  readonly kind: RegistryErrorKind;
+  readonly reason?: string; // Decoded revert reason (contract-revert / asset-not-found)
+  readonly cause?: unknown;
+
+  constructor(kind: RegistryErrorKind, message?: string, options: { reason?: string; cause?: unknown } = {}) {
+    super(message || ERROR_MESSAGES[kind]);
+    this.name = 'RegistryError';
+    this.kind = kind;
+    this.reason = options.reason;
+    this.cause = options.cause;
+  }
+}
+
+export const isRegistryError = (error: unknown): error is RegistryError => error instanceof RegistryError;
+
+// JSON-RPC / EIP-1193 codes
+const USER_REJECTED_CODE = 4001;
+const UNRECOGNIZED_CHAIN_CODE = 4902;
+
+/**
+ * Collect the error and every provider error nested inside it (ethers wraps wallet errors)
+ */
+const unwrap = (error: any): any[] => {
+  const chain: any[] = [];
+  let current = error;
+  while (current && typeof current === 'object' && !chain.includes(current) && chain.length < 5) {
+    chain.push(current);
+    current = current.error ?? current.info?.error ?? current.data?.originalError;
+  }
+  return chain;
+};
+
+const collectMessages = (errors: any[]): string =>
+  errors
+    .map((e) => `${e.shortMessage || ''} ${e.message || ''}`)
+    .join(' ')
+    .toLowerCase();
+
+/**
+ * Extract a human-readable revert reason from an ethers CALL_EXCEPTION
+ */
+const getRevertReason = (error: any): string | undefined => {
+  if (typeof error?.reason === 'string' && error.reason) return error.reason;
+  const arg = error?.revert?.args?.[0];
+  return typeof arg === 'string' && arg ? arg : undefined;
+};
+
+const NOT_FOUND_PATTERN = /does ?n[o']t exist|nonexistent|not found|invalid asset/i;
+
+/**
+ * Map any error thrown by ethers, the wallet, the RPC or fetch into a RegistryError.
+ * `fallback` is used as the message when the error cannot be classified.
+ */
+export const toRegistryError = (error: unknown, fallback?: string): RegistryError => {
+  if (isRegistryError(error)) return error;
+
+  const chain = unwrap(error);
+  const codes = chain.map((e) => e.code);
+  const messages = collectMessages(chain);
+  const top: any = chain[0] ?? {};
+
+  if (
+    codes.includes('ACTION_REJECTED') ||
+    codes.includes(USER_REJECTED_CODE) ||
+    messages.includes('user rejected') ||
+    messages.includes('user denied')
+  ) {
+    return new RegistryError('user-rejected', undefined, { cause: error });
+  }
+
+  if (codes.includes('INSUFFICIENT_FUNDS') || messages.includes('insufficient funds')) {
+    return new RegistryError('insufficient-funds', undefined, { cause: error });
+  }
+
+  if (
+    codes.includes(UNRECOGNIZED_CHAIN_CODE) ||
+    messages.includes('network changed') ||
+    messages.includes('unrecognized chain')
+  ) {
+    return new RegistryError('wrong-network', undefined, { cause: error });
+  }
+
+  // Empty return data means there is no contract at the configured address on this chain
+  if (top.code === 'BAD_DATA' && top.value === '0x') {
+    return new RegistryError(
+      'wrong-network',
+      'No registry contract was found at the configured address on this network.',
+      { cause: error }
+    );
+  }
+
+  if (top.code === 'CALL_EXCEPTION') {
+    const reason = getRevertReason(top);
+    if (reason && NOT_FOUND_PATTERN.test(reason)) {
+      return new RegistryError('asset-not-found', undefined, { reason, cause: error });
+    }
+    return new RegistryError(
+      'contract-revert',
+      reason ? `The registry contract rejected this transaction: ${reason}` : undefined,
+      { reason, cause: error }
+    );
+  }
+
+  if (
+    codes.some((code) => ['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT'].includes(code)) ||
+    messages.includes('failed to fetch') ||
+    messages.includes('networkerror') ||
+    messages.includes('could not coalesce') ||
+    messages.includes('no rpc endpoint')
+  ) {
+    return new RegistryError('rpc-unavailable', undefined, { cause: error });
+  }
+
+  return new RegistryError('unknown', top.reason || top.shortMessage || top.message || fallback, { cause: error });
+};
@@ -0,0 +1,81 @@
+import { Signer, formatEther, formatUnits } from 'ethers';
+import { getContract, getTargetNetwork } from './web3';
+import { toRegistryError } from './errors';
+import type { WriteCall } from './writeFlows';
+
+export interface FeeEstimate {
+  gasLimit: bigint; // Sum over every transaction of the action
+  transactionCount: number;
+  baseFeePerGas: bigint | null; // null on pre-London chains
+  maxPriorityFeePerGas: bigint | null;
+  maxFeePerGas: bigint | null;
+  gasPrice: bigint | null; // Legacy pricing when EIP-1559 is unavailable
+  expectedCost: bigint; // gas * (base fee + tip), what is usually paid
+  maxCost: bigint; // gas * max fee, what the wallet must hold
+  balance: bigint;
+  insufficientFunds: boolean;
+}
+
+/**
+ * Estimate gas and EIP-1559 fees for the transactions of an action, and check the balance covers them
+ */
+export const estimateFees = async (calls: WriteCall[]): Promise<FeeEstimate> => {
+  try {
+    const contract = await getContract();
+    // getContract() always connects the wallet signer
+    const signer = contract.runner as Signer | null;
+    const provider = signer?.provider;
+    if (!signer || !provider) {
+      throw new Error('Provider not available');
+    }
+
+    const [gasLimits, feeData, block, balance] = await Promise.all([
+      Promise.all(calls.map((call) => contract.getFunction(call.method).estimateGas(...call.args))),
+      provider.getFeeData(),
+      provider.getBlock('latest'),
+      signer.getAddress().then((address) => provider.getBalance(address)),
+    ]);
+
+    const gasLimit = gasLimits.reduce((total, gas) => total + gas, 0n);
+    const baseFeePerGas = block?.baseFeePerGas ?? null;
+    const { maxPriorityFeePerGas, maxFeePerGas, gasPrice } = feeData;
+
+    const expectedPerGas =
+      baseFeePerGas !== null && maxPriorityFeePerGas !== null ? baseFeePerGas + maxPriorityFeePerGas : gasPrice ?? 0n;
+    const maxPerGas = maxFeePerGas ?? gasPrice ?? expectedPerGas;
+
+    const maxCost = gasLimit * maxPerGas;
+    return {
+      gasLimit,
+      transactionCount: calls.length,
+      baseFeePerGas,
+      maxPriorityFeePerGas,
+      maxFeePerGas,
+      gasPrice,
+      expectedCost: gasLimit * expectedPerGas,
+      maxCost,
+      balance,
+      insufficientFunds: balance < maxCost,
+    };
+  } catch (error: any) {
+    console.error('Error estimating fees:', error);
+    throw toRegistryError(error, 'Failed to estimate fees');
+  }
+};
+
+/**
+ * Format a wei amount in the target network's currency (e.g. "0.000412 ETH")
+ */
+export const formatCost = (wei: bigint, decimals: number = 6): string => {
+  const value = Number(formatEther(wei));
+  const symbol = getTargetNetwork().nativeCurrency.symbol;
+  if (value > 0 && value < 10 ** -decimals) {
+    return `<${(10 ** -decimals).toFixed(decimals)} ${symbol}`;
+  }
+  return `${value.toFixed(decimals).replace(/\.?0+$/, '')} ${symbol}`;
+};
+
+/**
+ * Format a per-gas price in gwei
+ */
+export const formatGwei = (wei: bigint): string => `${Number(formatUnits(wei, 'gwei')).toFixed(2)} gwei`;
@@ -0,0 +1,387 @@
+import { Log, zeroPadValue, toBeHex } from 'ethers';
+import { getReadOnlyContract } from './web3';
+import { viewAsset, AssetData } from './contract';
+import { config } from '../config/config';
+import { RegistryError, toRegistryError } from './errors';
+import type {
+  DigitalAssetRegistry,
+  AssetRegisteredEventArgs,
+  OwnershipTransferredEventArgs,
+  PermissionGrantedEventArgs,
+  PermissionRevokedEventArgs,
+  UsageLoggedEventArgs,
+} from '../contracts/DigitalAssetRegistry.types';
+import { applyPermissionEvent, compareEvents, listAccessHolders } from './permissions';
+
+export type RegistryEventName =
+  | 'AssetRegistered'
+  | 'OwnershipTransferred'
+  | 'PermissionGranted'
+  | 'PermissionRevoked'
+  | 'UsageLogged';
+
+export const REGISTRY_EVENTS: RegistryEventName[] = [
+  'AssetRegistered',
+  'OwnershipTransferred',
+  'PermissionGranted',
+  'PermissionRevoked',
+  'UsageLogged',
+];
+
+interface EventMeta {
+  assetId: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export type RegistryEvent =
+  | (EventMeta & { name: 'AssetRegistered'; author: string; owner: string })
+  | (EventMeta & { name: 'OwnershipTransferred'; oldOwner: string; newOwner: string })
+  | (EventMeta & { name: 'PermissionGranted'; grantee: string })
+  | (EventMeta & { name: 'PermissionRevoked'; grantee: string })
+  | (EventMeta & { name: 'UsageLogged'; actor: string; timestamp: number; description: string });
+
+export interface IndexedUsageEntry {
+  actor: string;
+  timestamp: number;
+  description: string;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface IndexedAsset {
+  id: number;
+  author: string;
+  owner: string;
+  registeredBlock: number;
+  grantees: string[]; // Explicit grants, lowercased (see permissions.ts)
+  usage: IndexedUsageEntry[];
+  details?: AssetData; // Static fields from viewAsset (name, type, URI...)
+}
+
+export interface RegistryState {
+  assets: Record<string, IndexedAsset>;
+  lastBlock: number; // Every event up to and including this block has been applied
+  liveEvents?: string[]; // Keys of subscription events applied beyond lastBlock (see applyLiveEvent)
+}
+
+export interface IndexerProgress {
+  fromBlock: number;
+  toBlock: number;
+  latestBlock: number;
+  eventsFound: number;
+}
+
+interface FetchOptions {
+  assetId?: number;
+  eventNames?: RegistryEventName[]; // Defaults to every registry event
+  indexedTopics?: Array<string | string[] | null>; // Topics 1-3 (takes precedence over assetId)
+  onProgress?: (progress: IndexerProgress) => void;
+}
+
+/**
+ * Create an empty registry state that starts just before the given block
+ */
+export const createRegistryState = (startBlock: number = config.indexer.startBlock): RegistryState => ({
+  assets: {},
+  lastBlock: startBlock - 1,
+});
+
+/**
+ * Some RPC providers cap the block range (or result count) of eth_getLogs
+ */
+const isRangeLimitError = (error: any): boolean => {
+  const message = `${error?.message || ''} ${error?.error?.message || ''}`.toLowerCase();
+  return (
+    message.includes('block range') ||
+    message.includes('range is too large') ||
+    message.includes('too many') ||
+    message.includes('limit exceeded') ||
+    message.includes('query returned more than') ||
+    error?.error?.code === -32005
+  );
+};
+
+/**
+ * Decode a raw log into a typed registry event
+ */
+export const parseRegistryLog = (contract: DigitalAssetRegistry, log: Log): RegistryEvent | null => {
+  let parsed;
+  try {
+    parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const meta: EventMeta = {
+    assetId: Number(parsed.args.assetId),
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+  };
+
+  // The ethers Result exposes named fields; view it through the generated event arg types
+  const args: unknown = parsed.args;
+
+  switch (parsed.name as RegistryEventName) {
+    case 'AssetRegistered': {
+      const { author, owner } = args as AssetRegisteredEventArgs;
+      return { ...meta, name: 'AssetRegistered', author, owner };
+    }
+    case 'OwnershipTransferred': {
+      const { oldOwner, newOwner } = args as OwnershipTransferredEventArgs;
+      return { ...meta, name: 'OwnershipTransferred', oldOwner, newOwner };
+    }
+    case 'PermissionGranted':
+      return { ...meta, name: 'PermissionGranted', grantee: (args as PermissionGrantedEventArgs).grantee };
+    case 'PermissionRevoked':
+      return { ...meta, name: 'PermissionRevoked', grantee: (args as PermissionRevokedEventArgs).grantee };
+    case 'UsageLogged': {
+      const { actor, timestamp, description } = args as UsageLoggedEventArgs;
+      return { ...meta, name: 'UsageLogged', actor, timestamp: Number(timestamp), description };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Encode an asset ID or address as an indexed event topic
+ */
+export const assetIdTopic = (assetId: number): string => zeroPadValue(toBeHex(assetId), 32);
+export const addressTopic = (address: string): string => zeroPadValue(address.toLowerCase(), 32);
+
+/**
+ * Fetch registry events in paged block ranges.
+ * The page size is halved whenever the RPC rejects a range as too large.
+ */
+export const fetchRegistryEvents = async (
+  fromBlock: number,
+  toBlock?: number,
+  options: FetchOptions = {}
+): Promise<{ events: RegistryEvent[]; toBlock: number }> => {
+  const contract = await getReadOnlyContract();
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error('Provider not available');
+  }
+
+  const latestBlock = toBlock ?? (await provider.getBlockNumber());
+  const topic0 = (options.eventNames ?? REGISTRY_EVENTS).map((name) => contract.interface.getEvent(name)!.topicHash);
+  const topics: Array<string | string[] | null> = [topic0];
+  if (options.indexedTopics) {
+    topics.push(...options.indexedTopics);
+  } else if (options.assetId !== undefined) {
+    topics.push(assetIdTopic(options.assetId));
+  }
+
+  const events: RegistryEvent[] = [];
+  let pageSize = Math.max(1, config.indexer.pageSize);
+  let start = Math.max(0, fromBlock);
+
+  while (start <= latestBlock) {
+    const end = Math.min(start + pageSize - 1, latestBlock);
+    try {
+      const logs = await provider.getLogs({
+        address: config.contractAddress,
+        topics,
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      for (const log of logs) {
+        const event = parseRegistryLog(contract, log);
+        if (event) events.push(event);
+      }
+
+      options.onProgress?.({ fromBlock: start, toBlock: end, latestBlock, eventsFound: events.length });
+      start = end + 1;
+    } catch (error: any) {
+      if (pageSize > 1 && isRangeLimitError(error)) {
+        pageSize = Math.floor(pageSize / 2);
+        console.warn(`⚠️ Log range too large, retrying with ${pageSize} blocks per page`);
+        continue;
+      }
+      console.error('Error fetching registry logs:', error);
+      throw toRegistryError(error, 'Failed to fetch registry logs');
+    }
+  }
+
+  events.sort(compareEvents);
+  return { events, toBlock: latestBlock };
+};
+
+const ensureAsset = (state: RegistryState, assetId: number, blockNumber: number): IndexedAsset => {
+  const key = assetId.toString();
+  if (!state.assets[key]) {
+    state.assets[key] = {
+      id: assetId,
+      author: '',
+      owner: '',
+      registeredBlock: blockNumber,
+      grantees: [],
+      usage: [],
+    };
+  }
+  return state.assets[key];
+};
+
+/**
+ * Identify a log by its position in the chain
+ */
+const eventKey = (event: { blockNumber: number; logIndex: number }): string =>
+  `${event.blockNumber}:${event.logIndex}`;
+
+/**
+ * Apply a single event to the registry state (mutates and returns the state).
+ * Does not move lastBlock; callers decide how far the state is complete.
+ */
+export const applyRegistryEvent = (state: RegistryState, event: RegistryEvent): RegistryState => {
+  const asset = ensureAsset(state, event.assetId, event.blockNumber);
+
+  switch (event.name) {
+    case 'AssetRegistered':
+      asset.author = event.author;
+      asset.registeredBlock = event.blockNumber;
+      applyPermissionEvent(asset, event);
+      break;
+    case 'OwnershipTransferred':
+    case 'PermissionGranted':
+    case 'PermissionRevoked':
+      applyPermissionEvent(asset, event);
+      break;
+    case 'UsageLogged':
+      asset.usage.push({
+        actor: event.actor,
+        timestamp: event.timestamp,
+        description: event.description,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+      });
+      break;
+  }
+
+  return state;
+};
+
+/**
+ * Apply an event received from a live subscription.
+ * lastBlock stays put (other logs of that block may still be missing); the key is remembered
+ * so the next sync skips it. Returns false if the event was already applied.
+ */
+export const applyLiveEvent = (state: RegistryState, event: RegistryEvent): boolean => {
+  const key = eventKey(event);
+  const liveEvents = state.liveEvents ?? [];
+  if (event.blockNumber <= state.lastBlock || liveEvents.includes(key)) {
+    return false;
+  }
+
+  applyRegistryEvent(state, event);
+  state.liveEvents = [...liveEvents, key];
+  return true;
+};
+
+/**
+ * Fill in static asset fields (name, type, URI...) that events don't carry
+ */
+export const loadMissingDetails = async (state: RegistryState, chunkSize: number = 25): Promise<void> => {
+  const pending = Object.values(state.assets).filter((asset) => !asset.details);
+
+  for (let i = 0; i < pending.length; i += chunkSize) {
+    const chunk = pending.slice(i, i + chunkSize);
+    await Promise.all(
+      chunk.map(async (asset) => {
+        try {
+          asset.details = await viewAsset(asset.id);
+          // Fall back to storage if the registration event was outside the indexed range
+          if (!asset.owner) asset.owner = asset.details.owner;
+          if (!asset.author) asset.author = asset.details.author;
+        } catch (error) {
+          console.warn(`Could not load details for asset ${asset.id}:`, error);
+        }
+      })
+    );
+  }
+};
+
+/**
+ * Bring a registry state up to date with the chain
+ */
+export const syncRegistry = async (
+  state: RegistryState,
+  options: FetchOptions = {}
+): Promise<RegistryState> => {
+  const { events, toBlock } = await fetchRegistryEvents(state.lastBlock + 1, undefined, options);
+  console.log(`📚 Indexed ${events.length} registry events up to block ${toBlock}`);
+
+  const alreadyApplied = new Set(state.liveEvents ?? []);
+  events
+    .filter((event) => !alreadyApplied.has(eventKey(event)))
+    .forEach((event) => applyRegistryEvent(state, event));
+  state.lastBlock = Math.max(state.lastBlock, toBlock);
+
+  // Live events past the synced range (the RPC can lag behind the subscription) stay pending
+  state.liveEvents = (state.liveEvents ?? []).filter((key) => Number(key.split(':')[0]) > state.lastBlock);
+
+  await loadMissingDetails(state);
+  return state;
+};
+
+/**
+ * Subscribe to registry events as they are mined. Returns an unsubscribe function.
+ */
+export const subscribeToRegistry = async (onEvent: (event: RegistryEvent) => void): Promise<() => void> => {
+  const contract = await getReadOnlyContract();
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new RegistryError('rpc-unavailable', 'Provider not available');
+  }
+
+  const filter = {
+    address: config.contractAddress,
+    topics: [REGISTRY_EVENTS.map((name) => contract.interface.getEvent(name)!.topicHash)],
+  };
+  const listener = (log: Log) => {
+    const event = parseRegistryLog(contract, log);
+    if (event) onEvent(event);
+  };
+
+  await provider.on(filter, listener);
+  console.log('📡 Subscribed to registry events');
+
+  return () => {
+    provider.off(filter, listener);
+  };
+};
+
+/**
+ * Rebuild the full registry state from the deployment block
+ */
+export const indexRegistry = async (options: FetchOptions = {}): Promise<RegistryState> => {
+  return syncRegistry(createRegistryState(), options);
+};
+
+/**
+ * Rebuild the state of a single asset from its own events
+ */
+export const indexAsset = async (assetId: number): Promise<IndexedAsset | null> => {
+  const state = await syncRegistry(createRegistryState(), { assetId });
+  return state.assets[assetId.toString()] ?? null;
+};
+
+/**
+ * Get the exact current access holders of an asset (owner first) from its event history
+ */
+export const getAssetPermissions = async (assetId: number): Promise<string[]> => {
+  try {
+    const asset = await indexAsset(assetId);
+    return asset ? listAccessHolders(asset) : [];
+  } catch (error: any) {
+    console.error('Error fetching permissions:', error);
+    return [];
+  }
+};
@@ -1,4 +1,5 @@
 import { config } from '../config/config';
+import { RegistryError } from './errors';
 
 export interface IPFSUploadResult {
   cid: string;
@@ -83,7 +84,7 @@ export const uploadToPinata = async (file: File): Promise<IPFSUploadResult> => {
       };
     }
     
-    throw new Error(`IPFS upload failed: ${error.message || 'Unknown error'}`);
+    throw new RegistryError('ipfs-failure', `IPFS upload failed: ${error.message || 'Unknown error'}`, { cause: error });
   }
 };
 
@@ -147,7 +148,7 @@ export const uploadJSONToPinata = async (jsonData: object): Promise<IPFSUploadRe
       };
     }
     
-    throw new Error(`IPFS JSON upload failed: ${error.message || 'Unknown error'}`);
+    throw new RegistryError('ipfs-failure', `IPFS JSON upload failed: ${error.message || 'Unknown error'}`, { cause: error });
   }
 };
 
@@ -159,7 +160,7 @@ export const fetchFromIPFS = async (cid: string): Promise<any> => {
     const response = await fetch(`${config.pinata.gateway}${cid}`);
     
     if (!response.ok) {
-      throw new Error('Failed to fetch from IPFS');
+      throw new RegistryError('ipfs-failure', `IPFS gateway returned ${response.status} for ${cid}`);
     }
 
     const contentType = response.headers.get('content-type');
@@ -171,7 +172,7 @@ export const fetchFromIPFS = async (cid: string): Promise<any> => {
     }
   } catch (error: any) {
     console.error('Error fetching from IPFS:', error);
-    throw new Error(error.message || 'Failed to fetch data from IPFS');
+    throw new RegistryError('ipfs-failure', error.message || 'Failed to fetch data from IPFS', { cause: error });
   }
 };
 
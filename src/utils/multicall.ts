@@ -0,0 +1,207 @@
+import { Contract, Provider, Result } from 'ethers';
+import { getReadOnlyContract, getReadRpcUrl } from './web3';
+import type {
+  DigitalAssetRegistry,
+  DigitalAssetRegistryFunctionInputs,
+  DigitalAssetRegistryFunctionOutputs,
+  DigitalAssetRegistryViewFunction,
+} from '../contracts/DigitalAssetRegistry.types';
+import { config } from '../config/config';
+
+// Multicall3 is deployed at the same address on almost every public chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+// Maximum calls per aggregate3 / JSON-RPC batch request
+const MAX_BATCH_SIZE = 100;
+
+interface PendingCall {
+  method: DigitalAssetRegistryViewFunction;
+  args: readonly unknown[];
+  resolve: (result: Result) => void;
+  reject: (error: any) => void;
+}
+
+interface EncodedCall extends PendingCall {
+  data: string;
+}
+
+let queue: PendingCall[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Whether Multicall3 has code on a chain, keyed by chain ID
+const multicallSupport = new Map<string, Promise<boolean>>();
+
+/**
+ * Check (once per chain) whether Multicall3 is deployed. A failed check is not remembered:
+ * that batch falls back to individual calls and the next one asks again.
+ */
+const supportsMulticall = (provider: Provider, chainId: string): Promise<boolean> => {
+  if (!multicallSupport.has(chainId)) {
+    const check = provider.getCode(MULTICALL3_ADDRESS).then((code) => code !== '0x');
+    check.catch(() => multicallSupport.delete(chainId));
+    multicallSupport.set(chainId, check);
+  }
+  return multicallSupport.get(chainId)!.catch(() => false);
+};
+
+/**
+ * Decode a call's return data, or turn revert data into an ethers CALL_EXCEPTION
+ */
+const settleCall = (contract: DigitalAssetRegistry, call: EncodedCall, success: boolean, returnData: string) => {
+  try {
+    if (success) {
+      call.resolve(contract.interface.decodeFunctionResult(call.method, returnData));
+    } else {
+      call.reject(contract.interface.makeError(returnData, { to: config.contractAddress, data: call.data }));
+    }
+  } catch (error) {
+    call.reject(error);
+  }
+};
+
+/**
+ * Execute calls through a single Multicall3 aggregate3 eth_call
+ */
+const executeWithMulticall = async (contract: DigitalAssetRegistry, provider: Provider, calls: EncodedCall[]) => {
+  const multicall = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const results = await multicall.aggregate3.staticCall(
+    calls.map((call) => ({ target: config.contractAddress, allowFailure: true, callData: call.data }))
+  );
+
+  results.forEach((result: any, i: number) => {
+    settleCall(contract, calls[i], result.success, result.returnData);
+  });
+};
+
+/**
+ * Execute calls as one JSON-RPC batch request (e.g. a local Hardhat node without Multicall3)
+ */
+const executeWithRpcBatch = async (contract: DigitalAssetRegistry, rpcUrl: string, calls: EncodedCall[]) => {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(
+      calls.map((call, id) => ({
+        jsonrpc: '2.0',
+        id,
+        method: 'eth_call',
+        params: [{ to: config.contractAddress, data: call.data }, 'latest'],
+      }))
+    ),
+  });
+
+  if (!response.ok) {
+    throw new Error(`RPC batch request failed with status ${response.status}`);
+  }
+
+  const payload = await response.json();
+  if (!Array.isArray(payload)) {
+    throw new Error('RPC endpoint does not support batch requests');
+  }
+
+  const byId = new Map<number, any>(payload.map((item: any) => [item.id, item]));
+  calls.forEach((call, id) => {
+    const item = byId.get(id);
+    if (!item) {
+      call.reject(new Error('Missing response in RPC batch'));
+    } else if (item.error) {
+      settleCall(contract, call, false, typeof item.error.data === 'string' ? item.error.data : '0x');
+    } else {
+      settleCall(contract, call, true, item.result);
+    }
+  });
+};
+
+/**
+ * Execute calls one eth_call at a time (last resort)
+ */
+const executeIndividually = async (contract: DigitalAssetRegistry, provider: Provider, calls: EncodedCall[]) => {
+  await Promise.all(
+    calls.map(async (call) => {
+      try {
+        const returnData = await provider.call({ to: config.contractAddress, data: call.data });
+        settleCall(contract, call, true, returnData);
+      } catch (error) {
+        call.reject(error);
+      }
+    })
+  );
+};
+
+/**
+ * Send every queued call, picking the cheapest transport the chain supports
+ */
+const flush = async () => {
+  const pending = queue;
+  queue = [];
+  flushTimer = null;
+  if (pending.length === 0) return;
+
+  let contract: DigitalAssetRegistry;
+  let provider: Provider;
+  let calls: EncodedCall[];
+  let chainId: string;
+  try {
+    contract = await getReadOnlyContract();
+    if (!contract.runner?.provider) {
+      throw new Error('Provider not available');
+    }
+    provider = contract.runner.provider;
+    calls = pending.map((call) => ({ ...call, data: contract.interface.encodeFunctionData(call.method, [...call.args]) }));
+
+    // Nothing to batch
+    if (calls.length === 1) {
+      await executeIndividually(contract, provider, calls);
+      return;
+    }
+
+    chainId = '0x' + (await provider.getNetwork()).chainId.toString(16);
+  } catch (error) {
+    pending.forEach((call) => call.reject(error));
+    return;
+  }
+
+  const useMulticall = await supportsMulticall(provider, chainId);
+  const rpcUrl = getReadRpcUrl();
+
+  for (let i = 0; i < calls.length; i += MAX_BATCH_SIZE) {
+    const chunk = calls.slice(i, i + MAX_BATCH_SIZE);
+    try {
+      if (useMulticall) {
+        await executeWithMulticall(contract, provider, chunk);
+      } else if (rpcUrl) {
+        await executeWithRpcBatch(contract, rpcUrl, chunk);
+      } else {
+        await executeIndividually(contract, provider, chunk);
+      }
+    } catch (error) {
+      console.warn('⚠️ Batched read failed, falling back to individual calls:', error);
+      await executeIndividually(contract, provider, chunk);
+    }
+  }
+};
+
+/**
+ * Queue a registry view call; calls made in the same tick share one request.
+ * Single-output functions resolve to the value itself, others to the named Result.
+ */
+export const batchedRead = <M extends DigitalAssetRegistryViewFunction>(
+  method: M,
+  args: DigitalAssetRegistryFunctionInputs[M]
+): Promise<DigitalAssetRegistryFunctionOutputs[M]> => {
+  return new Promise((resolve, reject) => {
+    queue.push({
+      method,
+      args,
+      resolve: (result) => resolve(result.length === 1 ? result[0] : result),
+      reject,
+    });
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, 0);
+    }
+  });
+};
@@ -0,0 +1,103 @@
+import { ZeroAddress } from 'ethers';
+import type { RegistryEvent } from './indexer';
+import { batchedRead } from './multicall';
+
+export interface PermissionState {
+  owner: string; // Current owner; always has implicit access
+  grantees: string[]; // Explicit grants still in force, lowercased, in grant order
+}
+
+export interface PermissionMismatch {
+  address: string;
+  expected: boolean; // What the replayed event history says
+  actual: boolean; // What hasPermission returned
+}
+
+/**
+ * Order events the way the chain applied them
+ */
+export const compareEvents = (
+  a: { blockNumber: number; logIndex: number },
+  b: { blockNumber: number; logIndex: number }
+): number => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+/**
+ * Apply one ownership/permission event to an asset's permission state (mutates and returns it).
+ * Events must be applied in (blockNumber, logIndex) order.
+ */
+export const applyPermissionEvent = (state: PermissionState, event: RegistryEvent): PermissionState => {
+  switch (event.name) {
+    case 'AssetRegistered':
+      state.owner = event.owner;
+      break;
+    case 'OwnershipTransferred':
+      // The new owner gains implicit access; the old owner keeps access only through an explicit grant
+      state.owner = event.newOwner;
+      break;
+    case 'PermissionGranted': {
+      const grantee = event.grantee.toLowerCase();
+      if (!state.grantees.includes(grantee)) {
+        state.grantees.push(grantee);
+      }
+      break;
+    }
+    case 'PermissionRevoked': {
+      const grantee = event.grantee.toLowerCase();
+      state.grantees = state.grantees.filter((g) => g !== grantee);
+      break;
+    }
+  }
+  return state;
+};
+
+/**
+ * Check whether an address currently has access according to the replayed state
+ */
+export const stateAllows = (state: PermissionState, address: string): boolean => {
+  const normalized = address.toLowerCase();
+  return normalized === state.owner.toLowerCase() || state.grantees.includes(normalized);
+};
+
+/**
+ * Everyone with access: the owner first, then explicit grantees
+ */
+export const listAccessHolders = (state: PermissionState): string[] => {
+  const owner = state.owner.toLowerCase();
+  const holders = owner && owner !== ZeroAddress ? [owner] : [];
+  return [...holders, ...state.grantees.filter((g) => g !== owner)];
+};
+
+/**
+ * Addresses an asset is shared with (access holders other than the owner)
+ */
+export const getSharedWith = (asset: { owner: string; permissions: string[] }): string[] => {
+  const owner = asset.owner.toLowerCase();
+  const seen = new Set<string>();
+  return asset.permissions.filter((address) => {
+    const normalized = address.toLowerCase();
+    if (normalized === owner || seen.has(normalized)) return false;
+    seen.add(normalized);
+    return true;
+  });
+};
+
+/**
+ * Compare the replayed state with hasPermission on-chain (reads are batched into one request).
+ * Pass extra addresses (e.g. revoked grantees or previous owners) to check that they were denied.
+ */
+export const verifyPermissions = async (
+  assetId: number,
+  state: PermissionState,
+  extraAddresses: string[] = []
+): Promise<PermissionMismatch[]> => {
+  const addresses = Array.from(
+    new Set([...listAccessHolders(state), ...extraAddresses.map((a) => a.toLowerCase())])
+  );
+
+  // Not hasPermission() - it swallows RPC errors as "denied", which would look like a mismatch
+  const results = await Promise.all(addresses.map((address) => batchedRead('hasPermission', [assetId, address])));
+
+  return addresses
+    .map((address, i) => ({ address, expected: stateAllows(state, address), actual: results[i] }))
+    .filter((check) => check.expected !== check.actual);
+};
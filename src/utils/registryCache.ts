@@ -0,0 +1,129 @@
+import { RegistryState } from './indexer';
+
+const DB_NAME = 'digital-asset-registry';
+const DB_VERSION = 1;
+const STORE_NAME = 'registry';
+
+export interface CachedRegistry {
+  key: string;
+  chainId: string;
+  contractAddress: string;
+  state: RegistryState; // Assets, grantees and usage entries plus the last synced block
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check if IndexedDB is available (private browsing modes may disable it)
+ */
+export const isCacheAvailable = (): boolean => {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+};
+
+/**
+ * Open (and create/upgrade if needed) the registry cache database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open registry cache'));
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Run a single request against the registry object store
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Registry cache transaction aborted'));
+  });
+};
+
+/**
+ * Cache entries are scoped to a chain and a contract deployment
+ */
+export const getCacheKey = (chainId: string, contractAddress: string): string => {
+  return `${chainId.toLowerCase()}:${contractAddress.toLowerCase()}`;
+};
+
+/**
+ * Load the cached registry state for a chain/contract, if any
+ */
+export const loadCachedRegistry = async (
+  chainId: string,
+  contractAddress: string
+): Promise<RegistryState | null> => {
+  if (!isCacheAvailable() || !contractAddress) return null;
+
+  try {
+    const entry = await withStore<CachedRegistry | undefined>('readonly', (store) =>
+      store.get(getCacheKey(chainId, contractAddress))
+    );
+    return entry ? entry.state : null;
+  } catch (error) {
+    console.warn('⚠️ Failed to read registry cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Persist the registry state for a chain/contract
+ */
+export const saveCachedRegistry = async (
+  chainId: string,
+  contractAddress: string,
+  state: RegistryState
+): Promise<void> => {
+  if (!isCacheAvailable() || !contractAddress) return;
+
+  const entry: CachedRegistry = {
+    key: getCacheKey(chainId, contractAddress),
+    chainId,
+    contractAddress,
+    state,
+    savedAt: Date.now(),
+  };
+
+  try {
+    await withStore('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.warn('⚠️ Failed to write registry cache:', error);
+  }
+};
+
+/**
+ * Drop the cached registry state for a chain/contract
+ */
+export const clearCachedRegistry = async (chainId: string, contractAddress: string): Promise<void> => {
+  if (!isCacheAvailable()) return;
+
+  try {
+    await withStore('readwrite', (store) => store.delete(getCacheKey(chainId, contractAddress)));
+  } catch (error) {
+    console.warn('⚠️ Failed to clear registry cache:', error);
+  }
+};
@@ -0,0 +1,38 @@
+import { getContract } from './web3';
+import { RegistryError, toRegistryError } from './errors';
+import type { DigitalAssetRegistry } from '../contracts/DigitalAssetRegistry.types';
+import type { WriteCall } from './writeFlows';
+
+export interface SimulationFailure {
+  call: WriteCall; // The first call that would revert
+  error: RegistryError; // Carries the decoded revert reason
+}
+
+/**
+ * Run a write as a static call against the latest block, from the connected account.
+ * Throws the decoded revert (as a RegistryError) without asking the wallet for a signature.
+ */
+export const simulateWrite = async (contract: DigitalAssetRegistry, call: WriteCall): Promise<void> => {
+  try {
+    await contract.getFunction(call.method).staticCall(...call.args, { blockTag: 'latest' });
+  } catch (error: any) {
+    console.warn(`Simulation of ${call.method} reverted:`, error);
+    throw toRegistryError(error, `Simulation of ${call.method} failed`);
+  }
+};
+
+/**
+ * Simulate every transaction of an action; resolves with the first failure, or null if all would succeed
+ */
+export const simulateCalls = async (calls: WriteCall[]): Promise<SimulationFailure | null> => {
+  const contract = await getContract();
+  const results = await Promise.all(
+    calls.map((call) =>
+      simulateWrite(contract, call).then(
+        () => null,
+        (error: RegistryError): SimulationFailure => ({ call, error })
+      )
+    )
+  );
+  return results.find((result) => result !== null) ?? null;
+};
@@ -0,0 +1,308 @@
+import { Contract, getAddress, hashMessage, hexlify, randomBytes, verifyMessage } from 'ethers';
+import { getProvider, getReadProvider, getTargetNetwork } from './web3';
+import { RegistryError, toRegistryError } from './errors';
+
+// EIP-4361 fields used by the registry (resources and request id are not needed)
+export interface SiweMessage {
+  domain: string;
+  address: string; // EIP-55 checksummed
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string;
+  notBefore?: string;
+}
+
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  method: 'eoa' | 'eip1271'; // How the signature was checked
+  message: string;
+  signature: string;
+  issuedAt: number; // ms
+  expiresAt: number; // ms
+}
+
+const STORAGE_KEY = 'siwe_session';
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Unsigned login messages are only accepted for a short while after their nonce was issued
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+const STATEMENT = 'Sign in to the Digital Asset Registry. This request will not trigger a blockchain transaction or cost any gas.';
+
+// isValidSignature(bytes32,bytes) returns its own selector when the signature is valid
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+const EIP1271_ABI = ['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'];
+
+// Nonces handed out by this page and not used yet (nonce -> issued at, ms)
+const issuedNonces = new Map<string, number>();
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Read the stored session (null if missing, corrupt or expired)
+ */
+const loadSession = (): SiweSession | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed: SiweSession = JSON.parse(stored);
+    return parsed.expiresAt > Date.now() ? parsed : null;
+  } catch (error) {
+    console.warn('Could not read stored sign-in session:', error);
+    return null;
+  }
+};
+
+let session: SiweSession | null = typeof window !== 'undefined' ? loadSession() : null;
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const setSession = (next: SiweSession | null) => {
+  session = next;
+  try {
+    if (next) localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not store sign-in session:', error);
+  }
+  scheduleExpiry();
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Drop the session the moment it expires so subscribers see it go
+ */
+const scheduleExpiry = () => {
+  if (expiryTimer) clearTimeout(expiryTimer);
+  expiryTimer = null;
+  if (!session) return;
+
+  // setTimeout overflows past ~24.8 days; sessions are much shorter anyway
+  const delay = Math.min(session.expiresAt - Date.now(), 2 ** 31 - 1);
+  expiryTimer = setTimeout(() => setSession(null), Math.max(delay, 0));
+};
+
+if (session) scheduleExpiry();
+
+/**
+ * Create a fresh single-use nonce (EIP-4361: at least 8 alphanumeric characters)
+ */
+export const generateNonce = (): string => {
+  const nonce = hexlify(randomBytes(16)).slice(2);
+  issuedNonces.set(nonce, Date.now());
+  return nonce;
+};
+
+/**
+ * Render a message in the EIP-4361 text format wallets display
+ */
+export const formatSiweMessage = (message: SiweMessage): string => {
+  const lines = [
+    `${message.domain} wants you to sign in with your Ethereum account:`,
+    message.address,
+    '',
+  ];
+  if (message.statement) lines.push(message.statement, '');
+  lines.push(
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`);
+  return lines.join('\n');
+};
+
+/**
+ * Parse an EIP-4361 message back into its fields; throws if the text is not a sign-in message
+ */
+export const parseSiweMessage = (text: string): SiweMessage => {
+  const lines = text.split('\n');
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+  if (!header || !lines[1]) {
+    throw new Error('Not a Sign-In with Ethereum message');
+  }
+
+  const fields = new Map<string, string>();
+  lines.slice(2).forEach((line) => {
+    const field = line.match(/^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time|Not Before): (.+)$/);
+    if (field) fields.set(field[1], field[2]);
+  });
+
+  // The statement is the only free-text line between the address and the fields
+  const statement = lines[2] === '' && lines[3] && !lines[3].startsWith('URI: ') ? lines[3] : undefined;
+
+  const required = (name: string): string => {
+    const value = fields.get(name);
+    if (!value) throw new Error(`Sign-in message is missing "${name}"`);
+    return value;
+  };
+
+  if (required('Version') !== '1') {
+    throw new Error('Unsupported sign-in message version');
+  }
+
+  return {
+    domain: header[1],
+    address: getAddress(lines[1]),
+    statement,
+    uri: required('URI'),
+    version: '1',
+    chainId: Number(required('Chain ID')),
+    nonce: required('Nonce'),
+    issuedAt: required('Issued At'),
+    expirationTime: fields.get('Expiration Time'),
+    notBefore: fields.get('Not Before'),
+  };
+};
+
+/**
+ * Check a signature over a message: ECDSA recovery for EOAs, EIP-1271 for contract wallets
+ */
+const verifySignature = async (address: string, text: string, signature: string): Promise<SiweSession['method']> => {
+  try {
+    if (sameAddress(verifyMessage(text, signature), address)) return 'eoa';
+  } catch {
+    // Not a plain 65-byte signature; contract wallets may use any format
+  }
+
+  const provider = getReadProvider();
+  const code = await provider.getCode(address);
+  if (code === '0x') {
+    throw new RegistryError('invalid-signature');
+  }
+
+  const wallet = new Contract(address, EIP1271_ABI, provider);
+  try {
+    const result: string = await wallet.isValidSignature(hashMessage(text), signature);
+    if (result.toLowerCase() === EIP1271_MAGIC_VALUE) return 'eip1271';
+  } catch (error) {
+    console.warn('EIP-1271 check reverted:', error);
+  }
+  throw new RegistryError('invalid-signature');
+};
+
+/**
+ * Verify a signed sign-in message against this page: domain, chain, nonce, validity window and signature.
+ * The nonce is consumed, so each message can only be used once.
+ */
+export const verifySiweMessage = async (text: string, signature: string): Promise<SiweSession> => {
+  try {
+    const message = parseSiweMessage(text);
+    const now = Date.now();
+
+    if (message.domain !== window.location.host) {
+      throw new RegistryError('invalid-signature', `This sign-in message was created for ${message.domain}, not ${window.location.host}.`);
+    }
+    if (message.chainId !== Number(getTargetNetwork().chainId)) {
+      throw new RegistryError('wrong-network', `This sign-in message is for chain ${message.chainId}, not ${getTargetNetwork().chainName}.`);
+    }
+
+    const nonceIssuedAt = issuedNonces.get(message.nonce);
+    if (nonceIssuedAt === undefined || now - nonceIssuedAt > NONCE_TTL_MS) {
+      throw new RegistryError('invalid-signature', 'This sign-in request has expired or was already used. Please sign in again.');
+    }
+
+    const expiresAt = message.expirationTime ? Date.parse(message.expirationTime) : now + SESSION_TTL_MS;
+    if (isNaN(expiresAt) || expiresAt <= now) {
+      throw new RegistryError('invalid-signature', 'This sign-in message has expired.');
+    }
+    if (message.notBefore && Date.parse(message.notBefore) > now) {
+      throw new RegistryError('invalid-signature', 'This sign-in message is not valid yet.');
+    }
+
+    const method = await verifySignature(message.address, text, signature);
+    issuedNonces.delete(message.nonce);
+
+    return {
+      address: message.address,
+      chainId: message.chainId,
+      method,
+      message: text,
+      signature,
+      issuedAt: Date.parse(message.issuedAt),
+      expiresAt,
+    };
+  } catch (error: any) {
+    console.error('Error verifying sign-in message:', error);
+    throw toRegistryError(error, 'Failed to verify sign-in message');
+  }
+};
+
+/**
+ * Ask the wallet to sign a login message for `address`, verify it and start a session
+ */
+export const signInWithEthereum = async (address: string): Promise<SiweSession> => {
+  const provider = getProvider();
+  if (!provider) {
+    throw new Error('No browser wallet found. Please install a wallet extension to sign in.');
+  }
+
+  try {
+    const signer = await provider.getSigner();
+    if (!sameAddress(signer.address, address)) {
+      throw new RegistryError('account-mismatch');
+    }
+
+    const now = Date.now();
+    const text = formatSiweMessage({
+      domain: window.location.host,
+      address: getAddress(address),
+      statement: STATEMENT,
+      uri: window.location.origin,
+      version: '1',
+      chainId: Number(getTargetNetwork().chainId),
+      nonce: generateNonce(),
+      issuedAt: new Date(now).toISOString(),
+      expirationTime: new Date(now + SESSION_TTL_MS).toISOString(),
+    });
+
+    console.log('✍️ Requesting sign-in signature for', address);
+    const signature = await signer.signMessage(text);
+    const verified = await verifySiweMessage(text, signature);
+
+    console.log(`✅ Signed in as ${verified.address} (${verified.method})`);
+    setSession(verified);
+    return verified;
+  } catch (error: any) {
+    console.error('Error signing in with Ethereum:', error);
+    throw toRegistryError(error, 'Failed to sign in');
+  }
+};
+
+/**
+ * End the current session
+ */
+export const signOut = () => {
+  setSession(null);
+};
+
+/**
+ * The current session, if it has not expired (stable reference between changes)
+ */
+export const getSession = (): SiweSession | null => session;
+
+/**
+ * The verified identity for an address, or null if that address has not signed in.
+ * Features that need proof of wallet control (access requests, signed comments) check this.
+ */
+export const getVerifiedSession = (address: string): SiweSession | null =>
+  session && address && sameAddress(session.address, address) && session.expiresAt > Date.now() ? session : null;
+
+/**
+ * Get notified when the session starts, ends or expires. Returns an unsubscribe function.
+ */
+export const subscribeSession = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
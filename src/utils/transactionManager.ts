@@ -0,0 +1,424 @@
+import { ContractTransactionResponse, Signer, TransactionReceipt, TransactionResponse } from 'ethers';
+import { getContract, getReadChainId, getReadProvider, formatAddress } from './web3';
+import { RegistryError, toRegistryError } from './errors';
+
+export type TransactionAction =
+  | 'registerAsset'
+  | 'transferOwnership'
+  | 'grantPermission'
+  | 'revokePermission'
+  | 'logUsage';
+
+// replaced: another transaction with the same nonce landed instead; cancelled: a cancel landed
+export type TrackedTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled';
+
+export type TransactionKind = 'original' | 'speedUp' | 'cancel';
+
+export interface TrackedTransaction {
+  hash: string;
+  action: TransactionAction; // The intent; replacements keep the original's action, asset and params
+  assetId: number | null; // null until known (registerAsset)
+  params: Record<string, string>; // Call arguments, as strings so they survive JSON
+  kind: TransactionKind;
+  replaces?: string; // Hash of the transaction this one replaces
+  from: string;
+  to: string;
+  data: string;
+  value: string; // wei
+  chainId: string; // Hex
+  nonce: number;
+  gasLimit: string;
+  maxFeePerGas?: string; // EIP-1559 transactions
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string; // Legacy transactions
+  status: TrackedTransactionStatus;
+  submittedAt: number; // ms
+  confirmedAt?: number; // ms
+  blockNumber?: number;
+  error?: string;
+  dismissed?: boolean; // Hidden from the feedback queue (kept in history)
+}
+
+const STORAGE_KEY = 'registry_transactions';
+
+// Finished transactions kept in storage; pending ones are never dropped
+const MAX_HISTORY = 50;
+
+// How often pending nonces are checked for a receipt
+const POLL_INTERVAL_MS = 4000;
+
+// Receipt polls that must still come back empty after the nonce is used before blaming an outside replacement
+const REPLACEMENT_CONFIRM_POLLS = 2;
+
+// Failed polls (RPC errors) are retried with exponential backoff up to this delay
+const MAX_RETRY_DELAY_MS = 60000;
+
+// A nonce still unused this long after the latest send, with no group member known to the node, was dropped
+const DROPPED_AFTER_MS = 30 * 60 * 1000;
+
+// Replacements must outbid the pending transaction; wallets require at least +10%
+const FEE_BUMP_PERCENT = 125n;
+
+const CANCEL_GAS_LIMIT = 21000n;
+
+/**
+ * Read the stored transaction list (empty if storage is unavailable or corrupt)
+ */
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Could not read stored transactions:', error);
+    return [];
+  }
+};
+
+let transactions: TrackedTransaction[] = typeof window !== 'undefined' ? loadTransactions() : [];
+const listeners = new Set<() => void>();
+const settledListeners = new Set<(tx: TrackedTransaction) => void>();
+
+// Nonce watchers in flight, keyed by nonceKey, so a nonce is only watched once
+const watchers = new Map<string, Promise<TransactionReceipt>>();
+
+const nonceKey = (tx: Pick<TrackedTransaction, 'chainId' | 'from' | 'nonce'>): string =>
+  `${tx.chainId}:${tx.from.toLowerCase()}:${tx.nonce}`;
+
+const persist = () => {
+  const pending = transactions.filter((tx) => tx.status === 'pending');
+  const finished = transactions.filter((tx) => tx.status !== 'pending').slice(0, MAX_HISTORY);
+  transactions = [...pending, ...finished].sort((a, b) => b.submittedAt - a.submittedAt);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch (error) {
+    console.warn('Could not persist transactions:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const updateTransaction = (hash: string, changes: Partial<TrackedTransaction>) => {
+  transactions = transactions.map((tx) => (tx.hash === hash ? { ...tx, ...changes } : tx));
+  persist();
+};
+
+/**
+ * All tracked transactions, newest first (stable reference between changes)
+ */
+export const getTransactions = (): TrackedTransaction[] => transactions;
+
+/**
+ * Get notified whenever a tracked transaction changes. Returns an unsubscribe function.
+ */
+export const subscribeTransactions = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get notified when the transaction that landed for a nonce is known. Returns an unsubscribe function.
+ */
+export const onTransactionSettled = (listener: (tx: TrackedTransaction) => void): (() => void) => {
+  settledListeners.add(listener);
+  return () => {
+    settledListeners.delete(listener);
+  };
+};
+
+/**
+ * Transactions sharing a nonce: the original and any speed-up or cancel replacements
+ */
+const getNonceGroup = (tx: TrackedTransaction): TrackedTransaction[] => {
+  const key = nonceKey(tx);
+  return transactions.filter((candidate) => nonceKey(candidate) === key);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * One poll of a nonce group: receipts, the account's mined nonce, and (only once the group is old
+ * enough to have been dropped) whether the node still knows any member. Rejects on RPC errors.
+ */
+const pollNonceGroup = async (tx: TrackedTransaction, group: TrackedTransaction[]) => {
+  const provider = getReadProvider();
+  const [receipts, minedNonce] = await Promise.all([
+    Promise.all(group.map((member) => provider.getTransactionReceipt(member.hash))),
+    provider.getTransactionCount(tx.from, 'latest'),
+  ]);
+
+  const lastSentAt = Math.max(...group.map((member) => member.submittedAt));
+  let isKnown = true;
+  if (Date.now() - lastSentAt > DROPPED_AFTER_MS) {
+    const responses = await Promise.all(group.map((member) => provider.getTransaction(member.hash)));
+    isKnown = responses.some((response) => response !== null);
+  }
+
+  return { receipts, minedNonce, isKnown };
+};
+
+/**
+ * Poll until one transaction of the nonce group is mined, then settle the whole group.
+ * Resolves with the receipt of whichever transaction landed; rejects if it reverted, was cancelled,
+ * was replaced outside the app or was dropped. RPC errors while polling are retried, not fatal.
+ */
+const watchNonce = (tx: TrackedTransaction): Promise<TransactionReceipt> => {
+  const key = nonceKey(tx);
+  const existing = watchers.get(key);
+  if (existing) return existing;
+
+  const watcher = (async () => {
+    let pollsSinceNonceUsed = 0;
+    let failedPolls = 0;
+    try {
+      for (;;) {
+        const group = getNonceGroup(tx);
+        const poll = await pollNonceGroup(tx, group).catch((error) => {
+          console.warn(`⚠️ Could not check transaction ${tx.hash}, retrying:`, error);
+          return null;
+        });
+        if (!poll) {
+          failedPolls++;
+          await sleep(Math.min(POLL_INTERVAL_MS * 2 ** failedPolls, MAX_RETRY_DELAY_MS));
+          continue;
+        }
+        failedPolls = 0;
+
+        const { receipts, minedNonce, isKnown } = poll;
+        const landedIndex = receipts.findIndex((receipt) => receipt !== null);
+
+        if (landedIndex !== -1) {
+          const landed = group[landedIndex];
+          const receipt = receipts[landedIndex]!;
+          group
+            .filter((member) => member.hash !== landed.hash)
+            .forEach((member) => updateTransaction(member.hash, { status: 'replaced', dismissed: true }));
+
+          if (receipt.status === 0) {
+            throw new RegistryError('contract-revert', 'The transaction was mined but reverted.');
+          }
+
+          const status = landed.kind === 'cancel' ? 'cancelled' : 'confirmed';
+          updateTransaction(landed.hash, { status, blockNumber: receipt.blockNumber, confirmedAt: Date.now() });
+          console.log(`✅ Transaction ${landed.hash} (${landed.kind}) mined in block ${receipt.blockNumber}`);
+          settledListeners.forEach((listener) => listener({ ...landed, status }));
+
+          if (landed.kind === 'cancel') {
+            throw new RegistryError('user-rejected', 'The transaction was cancelled.');
+          }
+          return receipt;
+        }
+
+        // The nonce was used by a transaction this app did not send (e.g. replaced from the wallet UI).
+        // A group member may have been mined since the receipt poll, and load-balanced RPCs can report
+        // the new nonce before the receipt, so the receipts are polled again before giving up on them.
+        if (minedNonce > tx.nonce) {
+          if (pollsSinceNonceUsed >= REPLACEMENT_CONFIRM_POLLS) {
+            group.forEach((member) => updateTransaction(member.hash, { status: 'replaced' }));
+            throw new RegistryError('unknown', 'The transaction was replaced outside this app. Check your wallet activity.');
+          }
+          pollsSinceNonceUsed++;
+        } else if (!isKnown) {
+          throw new RegistryError('unknown', 'The transaction was dropped by the network without being mined. Please send it again.');
+        }
+
+        await sleep(POLL_INTERVAL_MS);
+      }
+    } catch (error) {
+      const registryError = toRegistryError(error, 'Transaction failed');
+      getNonceGroup(tx)
+        .filter((member) => member.status === 'pending')
+        .forEach((member) => updateTransaction(member.hash, { status: 'failed', error: registryError.message }));
+      throw registryError;
+    } finally {
+      watchers.delete(key);
+    }
+  })();
+
+  watchers.set(key, watcher);
+  return watcher;
+};
+
+/**
+ * Snapshot the fields needed to resend a transaction
+ */
+const describeResponse = (tx: TransactionResponse) => ({
+  hash: tx.hash,
+  from: tx.from,
+  to: tx.to ?? '',
+  data: tx.data,
+  value: tx.value.toString(),
+  chainId: '0x' + tx.chainId.toString(16),
+  nonce: tx.nonce,
+  gasLimit: tx.gasLimit.toString(),
+  maxFeePerGas: tx.maxFeePerGas?.toString(),
+  maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+  gasPrice: tx.maxFeePerGas === null ? tx.gasPrice?.toString() : undefined,
+  status: 'pending' as const,
+  submittedAt: Date.now(),
+});
+
+/**
+ * Record a submitted transaction and wait for it (or a replacement) to be mined
+ */
+export const trackTransaction = (
+  tx: ContractTransactionResponse,
+  action: TransactionAction,
+  assetId: number | null,
+  params: Record<string, string> = {}
+): Promise<TransactionReceipt> => {
+  const record: TrackedTransaction = { ...describeResponse(tx), action, assetId, params, kind: 'original' };
+  transactions = [record, ...transactions.filter((existing) => existing.hash !== tx.hash)];
+  persist();
+  console.log(`📝 Tracking ${action} transaction ${tx.hash}`);
+
+  return watchNonce(record);
+};
+
+/**
+ * Resume watching transactions that were still pending when the page was closed or reloaded
+ */
+export const resumePendingTransactions = async (): Promise<void> => {
+  const chainId = await getReadChainId();
+  const pending = transactions.filter((tx) => tx.status === 'pending' && tx.chainId === chainId);
+  if (pending.length === 0) return;
+
+  console.log(`🔁 Resuming ${pending.length} pending transaction(s)`);
+  pending.forEach((tx) => {
+    watchNonce(tx).catch((error) => console.warn(`Transaction ${tx.hash} did not complete:`, error));
+  });
+};
+
+/**
+ * Wait for a tracked transaction's nonce to settle. Resolves with the hash that landed
+ * (the original or a speed-up); rejects if it failed, reverted or was cancelled.
+ */
+export const waitForTransaction = async (hash: string): Promise<string> => {
+  const tx = transactions.find((candidate) => candidate.hash === hash);
+  if (!tx) {
+    throw new RegistryError('unknown', 'The transaction is no longer tracked.');
+  }
+
+  const group = getNonceGroup(tx);
+  const landed = group.find((member) => member.status === 'confirmed');
+  if (landed) return landed.hash;
+
+  if (group.some((member) => member.status === 'pending')) {
+    const receipt = await watchNonce(tx);
+    return receipt.hash;
+  }
+  if (group.some((member) => member.status === 'cancelled')) {
+    throw new RegistryError('user-rejected', 'The transaction was cancelled.');
+  }
+  throw new RegistryError('unknown', tx.error || 'The transaction did not complete.');
+};
+
+const bump = (value: bigint): bigint => (value * FEE_BUMP_PERCENT) / 100n;
+const max = (a: bigint, b: bigint | null | undefined): bigint => (b != null && b > a ? b : a);
+
+/**
+ * Resend the pending transaction of a nonce with higher fees, either unchanged (speed up)
+ * or as a zero-value transfer to self (cancel)
+ */
+const replaceTransaction = async (hash: string, kind: 'speedUp' | 'cancel'): Promise<string> => {
+  const target = transactions.find((tx) => tx.hash === hash);
+  if (!target || target.status !== 'pending') {
+    throw new Error('Only pending transactions can be replaced');
+  }
+
+  try {
+    const contract = await getContract();
+    const signer = contract.runner as Signer | null;
+    if (!signer?.provider) {
+      throw new Error('Provider not available');
+    }
+    if ((await signer.getAddress()).toLowerCase() !== target.from.toLowerCase()) {
+      throw new RegistryError('unknown', `Switch your wallet to ${formatAddress(target.from)} to replace this transaction.`);
+    }
+
+    // Outbid the highest fee already used for this nonce, and at least match the current network fee
+    const group = getNonceGroup(target);
+    const feeData = await signer.provider.getFeeData();
+    const highest = (field: 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice') =>
+      group.reduce((top, tx) => max(top, tx[field] ? BigInt(tx[field]!) : null), 0n);
+
+    const fees = target.maxFeePerGas
+      ? {
+          maxFeePerGas: max(bump(highest('maxFeePerGas')), feeData.maxFeePerGas),
+          maxPriorityFeePerGas: max(bump(highest('maxPriorityFeePerGas')), feeData.maxPriorityFeePerGas),
+        }
+      : { gasPrice: max(bump(highest('gasPrice')), feeData.gasPrice) };
+
+    const request = kind === 'cancel'
+      ? { to: target.from, data: '0x', value: 0n, gasLimit: CANCEL_GAS_LIMIT }
+      : { to: target.to, data: target.data, value: BigInt(target.value), gasLimit: BigInt(target.gasLimit) };
+
+    const replacement = await signer.sendTransaction({ ...request, ...fees, nonce: target.nonce });
+
+    transactions = [
+      {
+        ...describeResponse(replacement),
+        action: target.action,
+        assetId: target.assetId,
+        params: target.params,
+        kind,
+        replaces: target.hash,
+      },
+      ...transactions,
+    ];
+    // The replaced card stays in history but leaves the queue
+    transactions = transactions.map((tx) => (tx.hash === target.hash ? { ...tx, dismissed: true } : tx));
+    persist();
+    console.log(`⏩ ${kind === 'cancel' ? 'Cancelling' : 'Speeding up'} ${target.hash} with ${replacement.hash}`);
+
+    return replacement.hash;
+  } catch (error: any) {
+    console.error('Error replacing transaction:', error);
+    throw toRegistryError(error, 'Failed to replace transaction');
+  }
+};
+
+/**
+ * Resend a pending transaction with higher fees
+ */
+export const speedUpTransaction = (hash: string): Promise<string> => replaceTransaction(hash, 'speedUp');
+
+/**
+ * Replace a pending transaction with a zero-value transfer to self at the same nonce
+ */
+export const cancelTransaction = (hash: string): Promise<string> => replaceTransaction(hash, 'cancel');
+
+/**
+ * Set the asset ID once it is known (registerAsset learns it from the receipt)
+ */
+export const setTransactionAssetId = (hash: string, assetId: number) => {
+  updateTransaction(hash, { assetId });
+};
+
+/**
+ * Hide a transaction from the feedback queue
+ */
+export const dismissTransaction = (hash: string) => {
+  updateTransaction(hash, { dismissed: true });
+};
+
+/**
+ * Human-readable summary of what a transaction does
+ */
+export const describeTransaction = (tx: TrackedTransaction): string => {
+  const asset = tx.assetId !== null ? `asset #${tx.assetId}` : 'asset';
+  const prefix = tx.kind === 'cancel' ? 'Cancelling: ' : '';
+  switch (tx.action) {
+    case 'registerAsset':
+      return `${prefix}Registering "${tx.params.name || 'new asset'}"`;
+    case 'transferOwnership':
+      return `${prefix}Transferring ${asset} to ${formatAddress(tx.params.newOwner)}`;
+    case 'grantPermission':
+      return `${prefix}Granting ${formatAddress(tx.params.grantee)} access to ${asset}`;
+    case 'revokePermission':
+      return `${prefix}Revoking ${formatAddress(tx.params.grantee)}'s access to ${asset}`;
+    case 'logUsage':
+      return `${prefix}Logging usage of ${asset}`;
+  }
+};
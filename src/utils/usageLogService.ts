@@ -0,0 +1,181 @@
+import { IndexedUsageEntry } from './indexer';
+import { getAllUsageEntries, UsageEntry } from './contract';
+import { UsageLog } from '../App';
+
+export interface UsageLogEntry {
+  assetId: number;
+  index: number; // Position in the contract's usage array
+  actor: string;
+  timestamp: number; // Unix seconds
+  description: string;
+  transactionHash: string | null; // null when only found in storage
+  blockNumber: number | null;
+  logIndex: number | null;
+}
+
+export type UsageMismatchKind = 'missing-event' | 'missing-storage' | 'field-mismatch';
+
+export interface UsageMismatch {
+  index: number;
+  kind: UsageMismatchKind;
+  event?: IndexedUsageEntry;
+  storage?: UsageEntry;
+}
+
+export interface UsageLogResult {
+  entries: UsageLogEntry[];
+  mismatches: UsageMismatch[];
+}
+
+// Last storage read per asset. Asset objects and the detail panel both reconcile against it,
+// so they always show the same history.
+const storageByAsset = new Map<number, UsageEntry[]>();
+// Indexed events the assets were last built from (the registry cache)
+const eventsByAsset = new Map<number, IndexedUsageEntry[]>();
+let storageVersion = 0;
+const listeners = new Set<() => void>();
+
+/**
+ * Convert UsageLogged events (already in chain order) into usage log entries
+ */
+export const fromEvents = (assetId: number, events: IndexedUsageEntry[]): UsageLogEntry[] => {
+  return events.map((event, index) => ({
+    assetId,
+    index,
+    actor: event.actor,
+    timestamp: event.timestamp,
+    description: event.description,
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+  }));
+};
+
+const sameEntry = (event: IndexedUsageEntry, stored: UsageEntry): boolean =>
+  event.actor.toLowerCase() === stored.actor.toLowerCase() &&
+  event.timestamp === stored.timestamp &&
+  event.description === stored.description;
+
+/**
+ * Pair events with storage entries from the start, matching on actor, timestamp and description
+ * (logUsage emits one event per push). Storage is authoritative for the fields; events contribute
+ * the transaction references. Storage entries after the last paired event are indexer lag
+ * (logged since the last sync) and are not flagged.
+ */
+export const reconcileUsage = (
+  assetId: number,
+  events: IndexedUsageEntry[],
+  storage: UsageEntry[]
+): UsageLogResult => {
+  const entries: UsageLogEntry[] = [];
+  const mismatches: UsageMismatch[] = [];
+  let next = 0; // First event not paired yet
+
+  storage.forEach((stored, index) => {
+    let event: IndexedUsageEntry | undefined;
+    const match = events.findIndex((candidate, position) => position >= next && sameEntry(candidate, stored));
+
+    if (match !== -1) {
+      // Events skipped over have no storage entry
+      events.slice(next, match).forEach((skipped) => mismatches.push({ index, kind: 'missing-storage', event: skipped }));
+      event = events[match];
+      next = match + 1;
+    } else if (next < events.length) {
+      const pending = events[next];
+      if (storage.slice(index + 1).some((later) => sameEntry(pending, later))) {
+        // Expected when the indexer starts after the entry was logged
+        mismatches.push({ index, kind: 'missing-event', storage: stored });
+      } else {
+        // Same position, different fields
+        mismatches.push({ index, kind: 'field-mismatch', event: pending, storage: stored });
+        event = pending;
+        next++;
+      }
+    }
+
+    entries.push({
+      assetId,
+      index,
+      actor: stored.actor,
+      timestamp: stored.timestamp,
+      description: stored.description,
+      transactionHash: event?.transactionHash ?? null,
+      blockNumber: event?.blockNumber ?? null,
+      logIndex: event?.logIndex ?? null,
+    });
+  });
+
+  events.slice(next).forEach((event) =>
+    mismatches.push({ index: storage.length, kind: 'missing-storage', event })
+  );
+
+  return { entries, mismatches };
+};
+
+/**
+ * Usage log of an asset from its indexed events, reconciled against the last storage read if there is one
+ */
+export const buildUsageLog = (assetId: number, events: IndexedUsageEntry[]): UsageLogResult => {
+  eventsByAsset.set(assetId, events);
+  const storage = storageByAsset.get(assetId);
+  return storage
+    ? reconcileUsage(assetId, events, storage)
+    : { entries: fromEvents(assetId, events), mismatches: [] };
+};
+
+/**
+ * Changes whenever a storage read lands (for memoizing assets built with buildUsageLog)
+ */
+export const getUsageStorageVersion = (): number => storageVersion;
+
+/**
+ * Get notified when a storage read lands. Returns an unsubscribe function.
+ */
+export const subscribeUsageStorage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Read the usage log of an asset from contract storage and reconcile it against the indexed
+ * UsageLogged events the asset was built from (no log scan). Rejects if storage can't be read;
+ * a failed read is not reported as a mismatch.
+ */
+export const getUsageLog = async (assetId: number): Promise<UsageLogResult> => {
+  const storage = await getAllUsageEntries(assetId);
+
+  storageByAsset.set(assetId, storage);
+  storageVersion++;
+  listeners.forEach((listener) => listener());
+
+  const result = reconcileUsage(assetId, eventsByAsset.get(assetId) ?? [], storage);
+  if (result.mismatches.length > 0) {
+    console.warn(`⚠️ Usage log for asset ${assetId} has ${result.mismatches.length} event/storage mismatch(es)`, result.mismatches);
+  }
+  return result;
+};
+
+/**
+ * Convert usage log entries into the UI shape used by Asset.usageLogs
+ */
+export const toUsageLogs = (entries: UsageLogEntry[]): UsageLog[] => {
+  return entries.map((entry) => ({
+    id: `${entry.assetId}-${entry.index}`,
+    user: entry.actor,
+    timestamp: new Date(entry.timestamp * 1000).toLocaleString(),
+    description: entry.description,
+    txHash: entry.transactionHash ?? undefined,
+    blockNumber: entry.blockNumber ?? undefined,
+    logIndex: entry.logIndex ?? undefined,
+  }));
+};
+
+export const UsageLogService = {
+  fromEvents,
+  reconcile: reconcileUsage,
+  build: buildUsageLog,
+  getUsageLog,
+  toUsageLogs,
+};
@@ -0,0 +1,125 @@
+import type { EthereumProvider } from './web3';
+
+// EIP-6963 provider metadata
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string; // Data URI
+  rdns: string; // Reverse-DNS id, stable across sessions (e.g. io.metamask)
+}
+
+export interface DiscoveredWallet {
+  info: WalletInfo;
+  provider: EthereumProvider;
+}
+
+interface AnnounceProviderEvent extends Event {
+  detail: DiscoveredWallet;
+}
+
+const STORAGE_KEY = 'selectedWallet';
+
+// Stand-in id for a wallet that only injects window.ethereum and never announces itself
+export const LEGACY_WALLET_RDNS = 'injected';
+
+// Wallets sometimes inject after the page is ready; check the legacy global once more after this
+const LEGACY_RECHECK_MS = 500;
+
+let announced: DiscoveredWallet[] = [];
+let wallets: DiscoveredWallet[] = [];
+let selectedRdns: string | null = (() => {
+  try {
+    return typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  } catch {
+    return null;
+  }
+})();
+let started = false;
+const listeners = new Set<() => void>();
+
+/**
+ * Rebuild the wallet list: announced wallets first, then window.ethereum if nobody announced it
+ */
+const update = () => {
+  const legacy = typeof window !== 'undefined' ? window.ethereum : undefined;
+  const legacyWallet: DiscoveredWallet[] =
+    legacy && !announced.some((wallet) => wallet.provider === legacy)
+      ? [{
+          info: {
+            uuid: LEGACY_WALLET_RDNS,
+            name: legacy.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+            icon: '',
+            rdns: LEGACY_WALLET_RDNS,
+          },
+          provider: legacy,
+        }]
+      : [];
+
+  wallets = [...announced, ...legacyWallet];
+  listeners.forEach((listener) => listener());
+};
+
+const handleAnnouncement = (event: Event) => {
+  const { info, provider } = (event as AnnounceProviderEvent).detail;
+  if (!info?.rdns || !provider) return;
+
+  // A wallet may announce more than once (e.g. after each requestProvider); keep the latest
+  announced = [...announced.filter((wallet) => wallet.info.rdns !== info.rdns), { info, provider }];
+  update();
+};
+
+/**
+ * Listen for EIP-6963 announcements and ask installed wallets to announce themselves.
+ * Safe to call more than once.
+ */
+export const startWalletDiscovery = () => {
+  if (typeof window === 'undefined') return;
+
+  if (!started) {
+    started = true;
+    window.addEventListener('eip6963:announceProvider', handleAnnouncement);
+    window.addEventListener('load', update);
+    setTimeout(update, LEGACY_RECHECK_MS);
+  }
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  update();
+};
+
+/**
+ * All wallets found so far (stable reference between changes)
+ */
+export const getWallets = (): DiscoveredWallet[] => wallets;
+
+/**
+ * Get notified when a wallet is discovered or selected. Returns an unsubscribe function.
+ */
+export const subscribeWallets = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * The wallet the user picked (remembered across sessions), if it is still installed
+ */
+export const getSelectedWallet = (): DiscoveredWallet | null =>
+  wallets.find((wallet) => wallet.info.rdns === selectedRdns) ?? null;
+
+/**
+ * Remember the wallet the user picked; every signing call and listener goes through it
+ */
+export const selectWallet = (rdns: string) => {
+  selectedRdns = rdns;
+  try {
+    localStorage.setItem(STORAGE_KEY, rdns);
+  } catch (error) {
+    console.warn('Could not remember the selected wallet:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Id of the remembered wallet, even if it is not installed any more
+ */
+export const getRememberedWalletRdns = (): string | null => selectedRdns;
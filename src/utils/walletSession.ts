@@ -0,0 +1,133 @@
+import { getCurrentAccount } from './web3';
+import { getSelectedWallet, startWalletDiscovery, subscribeWallets } from './walletDiscovery';
+
+export type AppView = 'dashboard' | 'register' | 'detail' | 'explore' | 'activity' | 'contacts';
+
+export interface RememberedWallet {
+  address: string;
+  rdns: string; // Wallet the address was connected through
+}
+
+// Where the user was, restored together with the wallet
+export interface UiState {
+  view: AppView;
+  selectedAssetId: string | null;
+}
+
+const WALLET_KEY = 'rememberedWallet';
+const UI_STATE_KEY = 'uiState';
+
+// Keys that belong to a signed-in session and go away on disconnect.
+// Tracked transactions, workflows, the registry cache and the wallet pick are kept on purpose.
+const SESSION_KEYS = [WALLET_KEY, UI_STATE_KEY, 'siwe_session', 'walletAddress'];
+
+// EIP-6963 wallets announce right away; legacy injection can take a moment longer
+const DISCOVERY_TIMEOUT_MS = 1000;
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.warn(`Could not read ${key}:`, error);
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not store ${key}:`, error);
+  }
+};
+
+const removeKey = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.warn(`Could not remove ${key}:`, error);
+  }
+};
+
+/**
+ * The wallet the user asked to be remembered on this device, if any
+ */
+export const getRememberedWallet = (): RememberedWallet | null =>
+  typeof window !== 'undefined' ? readJson<RememberedWallet>(WALLET_KEY) : null;
+
+/**
+ * Opt in to reconnecting this wallet automatically on the next visit
+ */
+export const rememberWallet = (wallet: RememberedWallet) => {
+  writeJson(WALLET_KEY, wallet);
+};
+
+/**
+ * Stop reconnecting automatically (the current session is not affected)
+ */
+export const forgetWallet = () => {
+  removeKey(WALLET_KEY);
+  removeKey(UI_STATE_KEY);
+};
+
+/**
+ * Last view and asset, only kept while a wallet is remembered
+ */
+export const getUiState = (): UiState | null => (getRememberedWallet() ? readJson<UiState>(UI_STATE_KEY) : null);
+
+export const saveUiState = (state: UiState) => {
+  if (getRememberedWallet()) writeJson(UI_STATE_KEY, state);
+};
+
+/**
+ * Remove every session key this app owns (other sites' and other features' data is left alone)
+ */
+export const clearSessionStorage = () => {
+  SESSION_KEYS.forEach(removeKey);
+};
+
+/**
+ * Resolve once the selected wallet has been discovered, or with false after a short wait
+ */
+const waitForSelectedWallet = (): Promise<boolean> => {
+  startWalletDiscovery();
+  if (getSelectedWallet()) return Promise.resolve(true);
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      resolve(getSelectedWallet() !== null);
+    }, DISCOVERY_TIMEOUT_MS);
+    const unsubscribe = subscribeWallets(() => {
+      if (!getSelectedWallet()) return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(true);
+    });
+  });
+};
+
+/**
+ * Reconnect the remembered wallet without a prompt (eth_accounts only returns already-authorized accounts).
+ * Returns the address, or null if the wallet is gone, locked, or now exposes a different account.
+ */
+export const restoreRememberedWallet = async (): Promise<string | null> => {
+  const remembered = getRememberedWallet();
+  if (!remembered) return null;
+
+  // walletDiscovery persists the pick itself; it is the same wallet unless the user picked another since
+  if (!(await waitForSelectedWallet()) || getSelectedWallet()?.info.rdns !== remembered.rdns) {
+    console.log('🔌 Remembered wallet is not available');
+    return null;
+  }
+
+  const account = await getCurrentAccount();
+  if (!account || account.toLowerCase() !== remembered.address.toLowerCase()) {
+    console.log('🔌 Remembered account is no longer authorized');
+    return null;
+  }
+
+  console.log('🔁 Restored wallet session for', account);
+  return account;
+};
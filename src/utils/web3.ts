@@ -1,6 +1,9 @@
-import { BrowserProvider, Contract, Eip1193Provider } from 'ethers';
+import { BrowserProvider, Contract, Eip1193Provider, JsonRpcProvider } from 'ethers';
 import contractABI from '../contracts/DigitalAssetRegistry.json';
-import { config } from '../config/config';
+import type { DigitalAssetRegistry } from '../contracts/DigitalAssetRegistry.types';
+import { config, NetworkConfig, NetworkKey } from '../config/config';
+import { RegistryError, toRegistryError } from './errors';
+import { getSelectedWallet, getWallets } from './walletDiscovery';
 
 // Types
 export interface EthereumProvider extends Eip1193Provider {
@@ -8,6 +11,7 @@ export interface EthereumProvider extends Eip1193Provider {
   on: (event: string, callback: (...args: any[]) => void) => void;
   removeListener: (event: string, callback: (...args: any[]) => void) => void;
   selectedAddress?: string;
+  isMetaMask?: boolean; // Set by MetaMask (and wallets imitating it) on window.ethereum
 }
 
 declare global {
@@ -17,65 +21,114 @@ declare global {
 }
 
 /**
- * Check if MetaMask is installed
+ * Get the EIP-1193 provider of the selected wallet.
+ * Falls back to window.ethereum until a wallet has been picked.
  */
-export const isMetaMaskInstalled = (): boolean => {
-  return typeof window !== 'undefined' && typeof window.ethereum !== 'undefined' && !!(window.ethereum as any).isMetaMask;
+export const getEthereum = (): EthereumProvider | null => {
+  const selected = getSelectedWallet();
+  if (selected) return selected.provider;
+  return typeof window !== 'undefined' ? window.ethereum ?? null : null;
 };
 
 /**
- * Get the Web3 provider from MetaMask
+ * Check if any browser wallet is installed (EIP-6963 announced or injected)
+ */
+export const isWalletAvailable = (): boolean => {
+  return getWallets().length > 0 || getEthereum() !== null;
+};
+
+/**
+ * Get the Web3 provider for the selected wallet
  */
 export const getProvider = (): BrowserProvider | null => {
-  if (!isMetaMaskInstalled()) {
+  const ethereum = getEthereum();
+  if (!ethereum) {
     return null;
   }
-  return new BrowserProvider(window.ethereum as any);
+  return new BrowserProvider(ethereum);
+};
+
+let readProvider: JsonRpcProvider | null = null;
+
+// Address the app is acting as; signing is refused from any other wallet account
+let expectedSigner: string | null = null;
+
+/**
+ * Set the address writes must be signed by (null accepts whichever account the wallet exposes)
+ */
+export const setExpectedSigner = (address: string | null): void => {
+  expectedSigner = address;
+};
+
+export const getExpectedSigner = (): string | null => expectedSigner;
+
+/**
+ * Get the network the dApp is deployed on (VITE_NETWORK_NAME)
+ */
+export const getTargetNetwork = (): NetworkConfig => {
+  return config.networks[config.defaultNetwork];
+};
+
+/**
+ * Get the JSON-RPC endpoint used for reads (VITE_RPC_URL or the default network's first RPC URL)
+ */
+export const getReadRpcUrl = (): string | null => {
+  return config.rpcUrl || getTargetNetwork()?.rpcUrls[0] || null;
+};
+
+/**
+ * Get the read-only JSON-RPC provider used for view calls and log queries.
+ * Works without an injected wallet; a wallet is only needed for signing.
+ */
+export const getReadProvider = (): JsonRpcProvider => {
+  if (readProvider) return readProvider;
+
+  const rpcUrl = getReadRpcUrl();
+  if (!rpcUrl) {
+    throw new RegistryError('rpc-unavailable', 'No RPC endpoint configured. Please set VITE_RPC_URL in .env file.');
+  }
+
+  const chainId = Number(getTargetNetwork().chainId);
+  readProvider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  return readProvider;
+};
+
+/**
+ * Get the chain ID the read provider is connected to
+ */
+export const getReadChainId = async (): Promise<string> => {
+  const network = await getReadProvider().getNetwork();
+  return '0x' + network.chainId.toString(16);
 };
 
 /**
- * Request account access from MetaMask
+ * Request account access from the selected wallet
  */
 export const connectWallet = async (): Promise<string> => {
-  if (!isMetaMaskInstalled()) {
-    throw new Error('MetaMask is not installed. Please install MetaMask to use this application.');
+  const ethereum = getEthereum();
+  if (!ethereum) {
+    throw new Error('No browser wallet found. Please install a wallet extension to use this application.');
   }
 
   try {
-    // Prefer the EIP-1193 request method directly on window.ethereum because
+    // Call the EIP-1193 request method directly because
     // some provider wrappers may not forward the prompt reliably in all environments.
-    if (window.ethereum && typeof (window.ethereum as any).request === 'function') {
-      try {
-        const accounts: string[] = await (window.ethereum as any).request({ method: 'eth_requestAccounts' });
-        if (!accounts || accounts.length === 0) {
-          throw new Error('No accounts found. Please unlock MetaMask.');
-        }
-        return accounts[0];
-      } catch (err: any) {
-        // Normalize user-rejection errors
-        if (err && (err.code === 4001 || err.code === 'ACTION_REJECTED')) {
-          const e: any = new Error('User rejected the connection request.');
-          e.code = 4001;
-          throw e;
-        }
-        throw err;
+    try {
+      const accounts: string[] = await ethereum.request({ method: 'eth_requestAccounts' });
+      if (!accounts || accounts.length === 0) {
+        throw new Error('No accounts found. Please unlock your wallet.');
       }
+      return accounts[0];
+    } catch (err: any) {
+      // Normalize user-rejection errors
+      const error = toRegistryError(err);
+      if (error.kind === 'user-rejected') {
+        throw new RegistryError('user-rejected', 'User rejected the connection request.', { cause: err });
+      }
+      throw err;
     }
-
-    // Fallback: use ethers BrowserProvider.send if available
-    const provider = getProvider();
-    if (!provider) throw new Error('Provider not available');
-
-    const accounts = await provider.send('eth_requestAccounts', [] as any);
-    if (!accounts || accounts.length === 0) {
-      throw new Error('No accounts found. Please unlock MetaMask.');
-    }
-    return accounts[0];
   } catch (error: any) {
-    if (error.code === 4001) {
-      throw new Error('User rejected the connection request.');
-    }
-    throw error;
+    throw toRegistryError(error, 'Failed to connect wallet');
   }
 };
 
@@ -83,10 +136,6 @@ export const connectWallet = async (): Promise<string> => {
  * Get the current connected account
  */
 export const getCurrentAccount = async (): Promise<string | null> => {
-  if (!isMetaMaskInstalled()) {
-    return null;
-  }
-
   try {
     const provider = getProvider();
     if (!provider) return null;
@@ -100,9 +149,9 @@ export const getCurrentAccount = async (): Promise<string | null> => {
 };
 
 /**
- * Get the contract instance
+ * Get the contract instance. Refuses a wallet on another chain, since writes would be sent there.
  */
-export const getContract = async (): Promise<Contract> => {
+export const getContract = async (): Promise<DigitalAssetRegistry> => {
   const provider = getProvider();
   if (!provider) {
     throw new Error('Provider not available');
@@ -112,24 +161,29 @@ export const getContract = async (): Promise<Contract> => {
     throw new Error('Contract address not configured. Please set VITE_CONTRACT_ADDRESS in .env file.');
   }
 
+  const network = await provider.getNetwork();
+  if (network.chainId !== BigInt(getTargetNetwork().chainId)) {
+    throw new RegistryError('wrong-network');
+  }
+
   const signer = await provider.getSigner();
-  return new Contract(config.contractAddress, contractABI, signer);
+  if (expectedSigner && signer.address.toLowerCase() !== expectedSigner.toLowerCase()) {
+    throw new RegistryError('account-mismatch');
+  }
+  return new Contract(config.contractAddress, contractABI, signer) as unknown as DigitalAssetRegistry;
 };
 
 /**
  * Get contract instance with read-only provider (no signer needed)
  */
-export const getReadOnlyContract = async (): Promise<Contract> => {
-  const provider = getProvider();
-  if (!provider) {
-    throw new Error('Provider not available');
-  }
+export const getReadOnlyContract = async (): Promise<DigitalAssetRegistry> => {
+  const provider = getReadProvider();
 
   if (!config.contractAddress) {
     throw new Error('Contract address not configured. Please set VITE_CONTRACT_ADDRESS in .env file.');
   }
 
-  return new Contract(config.contractAddress, contractABI, provider);
+  return new Contract(config.contractAddress, contractABI, provider) as unknown as DigitalAssetRegistry;
 };
 
 /**
@@ -148,28 +202,40 @@ export const getChainId = async (): Promise<string> => {
 /**
  * Switch to a specific network
  */
-export const switchNetwork = async (networkKey: keyof typeof config.networks): Promise<void> => {
-  if (!isMetaMaskInstalled() || !window.ethereum) {
-    throw new Error('MetaMask is not installed');
+export const switchNetwork = async (networkKey: NetworkKey): Promise<void> => {
+  const ethereum = getEthereum();
+  if (!ethereum) {
+    throw new Error('No browser wallet found');
   }
 
   const network = config.networks[networkKey];
   
   try {
-    await window.ethereum.request({
+    await ethereum.request({
       method: 'wallet_switchEthereumChain',
       params: [{ chainId: network.chainId }],
     });
   } catch (error: any) {
-    // This error code indicates that the chain has not been added to MetaMask
+    // This error code indicates that the chain has not been added to the wallet
     if (error.code === 4902) {
       try {
-        await window.ethereum.request({
+        // Only the EIP-3085 fields; wallets reject unknown keys
+        const { chainId, chainName, rpcUrls, blockExplorerUrls, nativeCurrency } = network;
+        await ethereum.request({
           method: 'wallet_addEthereumChain',
-          params: [network],
+          params: [{
+            chainId,
+            chainName,
+            rpcUrls,
+            blockExplorerUrls: blockExplorerUrls.length > 0 ? blockExplorerUrls : undefined,
+            nativeCurrency,
+          }],
         });
       } catch (addError) {
-        throw new Error('Failed to add network to MetaMask');
+        const error = toRegistryError(addError);
+        throw error.kind === 'user-rejected'
+          ? error
+          : new RegistryError('wrong-network', 'Failed to add network to your wallet', { cause: addError });
       }
     } else {
       throw error;
@@ -178,71 +244,87 @@ export const switchNetwork = async (networkKey: keyof typeof config.networks): P
 };
 
 /**
- * Check if the current network is Sepolia and switch if not
+ * Check whether the wallet is on the given network (defaults to the target network)
  */
-export const ensureSepoliaNetwork = async (): Promise<boolean> => {
-  if (!isMetaMaskInstalled() || !window.ethereum) {
-    throw new Error('MetaMask is not installed');
+export const isOnNetwork = async (target: NetworkKey = config.defaultNetwork): Promise<boolean> => {
+  const ethereum = getEthereum();
+  if (!ethereum) return false;
+  const chainId: string = await ethereum.request({ method: 'eth_chainId' });
+  return chainId.toLowerCase() === config.networks[target].chainId.toLowerCase();
+};
+
+/**
+ * Check if the wallet is on the target network and switch if not
+ */
+export const ensureNetwork = async (target: NetworkKey = config.defaultNetwork): Promise<boolean> => {
+  const ethereum = getEthereum();
+  if (!ethereum) {
+    throw new Error('No browser wallet found');
   }
 
+  const network = config.networks[target];
+
   try {
-    const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+    const chainId = await ethereum.request({ method: 'eth_chainId' });
     console.log('🌐 Current Network Chain ID:', chainId);
     
-    if (chainId !== config.networks.sepolia.chainId) {
-      console.log(`⚠️ Wrong network detected. Current: ${chainId}, Expected: ${config.networks.sepolia.chainId}`);
-      console.log('🔄 Attempting to switch to Sepolia...');
+    if (chainId.toLowerCase() !== network.chainId.toLowerCase()) {
+      console.log(`⚠️ Wrong network detected. Current: ${chainId}, Expected: ${network.chainId}`);
+      console.log(`🔄 Attempting to switch to ${network.chainName}...`);
       
-      await switchNetwork('sepolia');
-      console.log('✅ Successfully switched to Sepolia');
+      await switchNetwork(target);
+      console.log(`✅ Successfully switched to ${network.chainName}`);
       return true;
     }
     
-    console.log('✅ Already on Sepolia network');
+    console.log(`✅ Already on ${network.chainName}`);
     return true;
   } catch (error: any) {
     console.error('❌ Failed to switch network:', error);
-    if (error.code === 4001) {
-      throw new Error('User rejected the network switch request. Please switch to Sepolia manually in MetaMask.');
+    if (toRegistryError(error).kind === 'user-rejected') {
+      throw new RegistryError(
+        'user-rejected',
+        `User rejected the network switch request. Please switch to ${network.chainName} manually in your wallet.`,
+        { cause: error }
+      );
     }
-    throw new Error(`Failed to switch to Sepolia network: ${error.message}`);
+    throw new RegistryError('wrong-network', `Failed to switch to ${network.chainName}: ${error.message}`, { cause: error });
   }
 };
 
 /**
- * Listen for account changes
+ * Drop this site's account permission in the wallet (wallet_revokePermissions), so the next
+ * connect prompts again. Wallets without the method are left connected; that is not an error.
  */
-export const onAccountsChanged = (callback: (accounts: string[]) => void): void => {
-  if (window.ethereum) {
-    window.ethereum.on('accountsChanged', callback);
-  }
-};
+export const revokeWalletPermissions = async (): Promise<void> => {
+  const ethereum = getEthereum();
+  if (!ethereum) return;
 
-/**
- * Listen for chain changes
- */
-export const onChainChanged = (callback: (chainId: string) => void): void => {
-  if (window.ethereum) {
-    window.ethereum.on('chainChanged', callback);
+  try {
+    await ethereum.request({ method: 'wallet_revokePermissions', params: [{ eth_accounts: {} }] });
+    console.log('🔒 Wallet permission revoked');
+  } catch (error) {
+    console.warn('Wallet does not support revoking permissions:', error);
   }
 };
 
 /**
- * Remove account change listener
+ * Listen for account changes on the selected wallet. Returns an unsubscribe function
+ * that detaches from that same wallet, even if another one is selected in the meantime.
  */
-export const removeAccountsListener = (callback: (accounts: string[]) => void): void => {
-  if (window.ethereum) {
-    window.ethereum.removeListener('accountsChanged', callback);
-  }
+export const onAccountsChanged = (callback: (accounts: string[]) => void): (() => void) => {
+  const ethereum = getEthereum();
+  ethereum?.on('accountsChanged', callback);
+  return () => ethereum?.removeListener('accountsChanged', callback);
 };
 
 /**
- * Remove chain change listener
+ * Listen for chain changes on the selected wallet. Returns an unsubscribe function.
  */
-export const removeChainListener = (callback: (chainId: string) => void): void => {
-  if (window.ethereum) {
-    window.ethereum.removeListener('chainChanged', callback);
-  }
+export const onChainChanged = (callback: (chainId: string) => void): (() => void) => {
+  const ethereum = getEthereum();
+  ethereum?.on('chainChanged', callback);
+  return () => ethereum?.removeListener('chainChanged', callback);
 };
 
 /**
@@ -253,14 +335,17 @@ export const formatAddress = (address: string): string => {
   return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
 };
 
+/**
+ * Build a block explorer link for the read network (null if it has no explorer)
+ */
+export const getExplorerUrl = (type: 'tx' | 'address', value: string): string | null => {
+  const explorer = getTargetNetwork()?.blockExplorerUrls[0];
+  return explorer ? `${explorer.replace(/\/$/, '')}/${type}/${value}` : null;
+};
+
 /**
  * Get transaction receipt and wait for confirmation
  */
 export const waitForTransaction = async (txHash: string, confirmations: number = 1) => {
-  const provider = getProvider();
-  if (!provider) {
-    throw new Error('Provider not available');
-  }
-
-  return await provider.waitForTransaction(txHash, confirmations);
+  return await getReadProvider().waitForTransaction(txHash, confirmations);
 };
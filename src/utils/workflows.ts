@@ -0,0 +1,384 @@
+import { registerAsset, transferOwnership, grantPermission, revokePermission, logUsage } from './contract';
+import { getTransactions, waitForTransaction } from './transactionManager';
+import { formatAddress, getCurrentAccount, getExpectedSigner, setExpectedSigner } from './web3';
+import { RegistryError, toRegistryError } from './errors';
+import { usageMessages, writeFlows, type WriteCall } from './writeFlows';
+
+export type WorkflowName = 'transferOwnership' | 'grantAccess' | 'revokeAccess' | 'bulkPermissions';
+
+export type WorkflowStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+// paused: an interrupted run whose in-flight step was recovered, waiting for the user to continue
+export type WorkflowStatus = 'running' | 'paused' | 'failed' | 'completed';
+
+export interface WorkflowStep {
+  label: string;
+  call: WriteCall;
+  status: WorkflowStepStatus;
+  startedAt?: number; // ms; used to find the step's transaction after a reload
+  txHash?: string;
+  error?: string;
+}
+
+export interface WorkflowRun {
+  id: string;
+  name: WorkflowName;
+  title: string;
+  assetId: number;
+  actor: string;
+  steps: WorkflowStep[];
+  status: WorkflowStatus;
+  createdAt: number; // ms
+  updatedAt: number; // ms
+  dismissed?: boolean;
+  continueOnError?: boolean; // Batches: a failed step doesn't stop the rest (a rejected prompt still does)
+}
+
+export interface WorkflowDefinition {
+  name: WorkflowName;
+  title: string;
+  assetId: number;
+  actor: string;
+  steps: { label: string; call: WriteCall }[];
+  continueOnError?: boolean;
+}
+
+const STORAGE_KEY = 'registry_workflows';
+
+// Finished runs kept in storage
+const MAX_HISTORY = 20;
+
+// Failed or paused runs nobody continued are dropped after this long
+const ABANDONED_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Pair each call of a write flow with the label shown for its step
+ */
+const labelSteps = (calls: WriteCall[], labels: string[]) =>
+  calls.map((call, i) => ({ label: labels[i] ?? call.method, call }));
+
+/**
+ * Compound actions as named steps (the calls come from writeFlows, so fee previews match)
+ */
+export const workflowDefinitions = {
+  transferOwnership: (assetId: number, actor: string, newOwner: string): WorkflowDefinition => ({
+    name: 'transferOwnership',
+    title: `Transfer ownership to ${formatAddress(newOwner)}`,
+    assetId,
+    actor,
+    steps: labelSteps(writeFlows.transferOwnership(assetId, actor, newOwner), [
+      'Keep access as previous owner',
+      'Log the transfer',
+      'Transfer ownership',
+    ]),
+  }),
+  grantAccess: (assetId: number, actor: string, grantee: string): WorkflowDefinition => ({
+    name: 'grantAccess',
+    title: `Grant access to ${formatAddress(grantee)}`,
+    assetId,
+    actor,
+    steps: labelSteps(writeFlows.grantAccess(assetId, actor, grantee), ['Grant access', 'Log the grant']),
+  }),
+  revokeAccess: (assetId: number, actor: string, grantee: string): WorkflowDefinition => ({
+    name: 'revokeAccess',
+    title: `Revoke access from ${formatAddress(grantee)}`,
+    assetId,
+    actor,
+    steps: labelSteps(writeFlows.revokeAccess(assetId, actor, grantee), ['Revoke access', 'Log the revocation']),
+  }),
+  bulkPermissions: (assetId: number, actor: string, mode: 'grant' | 'revoke', addresses: string[]): WorkflowDefinition => ({
+    name: 'bulkPermissions',
+    title: mode === 'grant'
+      ? `Grant access to ${addresses.length} addresses`
+      : `Revoke access from ${addresses.length} addresses`,
+    assetId,
+    actor,
+    steps: labelSteps(writeFlows.bulkChange(assetId, actor, mode, addresses), [
+      ...addresses.map((address) => `${mode === 'grant' ? 'Grant access to' : 'Revoke access from'} ${formatAddress(address)}`),
+      'Log the bulk change',
+    ]),
+    continueOnError: true,
+  }),
+};
+
+/**
+ * The summary entry of a bulk run lists only the addresses whose change went through,
+ * so its message is rebuilt just before it is sent (null if none did)
+ */
+const bulkSummaryCall = (run: WorkflowRun): WriteCall | null => {
+  const changes = run.steps.slice(0, -1);
+  const succeeded = changes.filter((step) => step.status === 'done').map((step) => String(step.call.args[1]));
+  if (succeeded.length === 0) return null;
+
+  const mode = changes[0].call.method === 'grantPermission' ? 'grant' : 'revoke';
+  return { method: 'logUsage', args: [run.assetId, usageMessages.bulk(run.actor, mode, succeeded)] };
+};
+
+const isFinished = (run: WorkflowRun) => run.status === 'completed';
+
+const isAbandoned = (run: WorkflowRun, now: number) =>
+  (run.status === 'failed' || run.status === 'paused') && now - run.updatedAt > ABANDONED_AFTER_MS;
+
+/**
+ * Read the stored workflow runs (empty if storage is unavailable or corrupt)
+ */
+const loadWorkflows = (): WorkflowRun[] => {
+  try {
+    const stored: WorkflowRun[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    const now = Date.now();
+    return stored.filter((run) => !isAbandoned(run, now));
+  } catch (error) {
+    console.warn('Could not read stored workflows:', error);
+    return [];
+  }
+};
+
+let workflows: WorkflowRun[] = typeof window !== 'undefined' ? loadWorkflows() : [];
+const listeners = new Set<() => void>();
+
+// Runs executing in this page, so a run is never driven twice at once
+const active = new Map<string, Promise<WorkflowRun>>();
+
+const persist = () => {
+  const now = Date.now();
+  const unfinished = workflows.filter((run) => !isFinished(run) && !isAbandoned(run, now));
+  const finished = workflows.filter(isFinished).slice(0, MAX_HISTORY);
+  workflows = [...unfinished, ...finished].sort((a, b) => b.createdAt - a.createdAt);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(workflows));
+  } catch (error) {
+    console.warn('Could not persist workflows:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const getRun = (id: string): WorkflowRun => {
+  const run = workflows.find((candidate) => candidate.id === id);
+  if (!run) throw new Error(`Unknown workflow ${id}`);
+  return run;
+};
+
+const updateRun = (id: string, changes: Partial<WorkflowRun>) => {
+  workflows = workflows.map((run) => (run.id === id ? { ...run, ...changes, updatedAt: Date.now() } : run));
+  persist();
+};
+
+const updateStep = (id: string, index: number, changes: Partial<WorkflowStep>) => {
+  const run = getRun(id);
+  updateRun(id, { steps: run.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+};
+
+/**
+ * All workflow runs, newest first (stable reference between changes)
+ */
+export const getWorkflows = (): WorkflowRun[] => workflows;
+
+/**
+ * Get notified whenever a workflow run changes. Returns an unsubscribe function.
+ */
+export const subscribeWorkflows = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Send one step's transaction and wait for it; resolves with the transaction hash
+ */
+const executeCall = async (call: WriteCall): Promise<string> => {
+  switch (call.method) {
+    case 'registerAsset':
+      return (await registerAsset(...call.args)).txHash;
+    case 'transferOwnership':
+      return transferOwnership(Number(call.args[0]), String(call.args[1]));
+    case 'grantPermission':
+      return grantPermission(Number(call.args[0]), String(call.args[1]));
+    case 'revokePermission':
+      return revokePermission(Number(call.args[0]), String(call.args[1]));
+    case 'logUsage':
+      return logUsage(Number(call.args[0]), call.args[1]);
+  }
+};
+
+const isActor = (run: WorkflowRun, address: string | null): boolean =>
+  !!address && address.toLowerCase() === run.actor.toLowerCase();
+
+/**
+ * Refuse to sign a run's steps as anyone but the account that started it
+ */
+const assertActor = (run: WorkflowRun, address: string | null) => {
+  if (!isActor(run, address)) {
+    throw new RegistryError(
+      'account-mismatch',
+      `This was started by ${formatAddress(run.actor)}. Switch back to that account to continue.`
+    );
+  }
+};
+
+/**
+ * Run the remaining steps in order, stopping at the first failure
+ * (batches carry on past failed steps and only stop when a prompt is rejected or the account changes).
+ * Only the account that started the run can drive it.
+ */
+const drive = (id: string): Promise<WorkflowRun> => {
+  const existing = active.get(id);
+  if (existing) return existing;
+
+  const runner = (async () => {
+    try {
+      assertActor(getRun(id), getExpectedSigner() ?? (await getCurrentAccount()));
+      setExpectedSigner(getRun(id).actor);
+      updateRun(id, { status: 'running' });
+      let failedSteps = 0;
+
+      for (let index = 0; index < getRun(id).steps.length; index++) {
+        const step = getRun(id).steps[index];
+        if (step.status === 'done' || step.status === 'skipped') continue;
+
+        let call = step.call;
+        if (getRun(id).name === 'bulkPermissions' && index === getRun(id).steps.length - 1) {
+          // Summarized once every change went through or was skipped, never for a partial batch
+          if (failedSteps > 0) break;
+          const summary = bulkSummaryCall(getRun(id));
+          if (!summary) {
+            updateStep(id, index, { status: 'skipped' });
+            continue;
+          }
+          call = summary;
+        }
+
+        console.log(`▶️ Workflow ${getRun(id).name}: ${step.label}`);
+        updateStep(id, index, { call, status: 'running', startedAt: Date.now(), error: undefined });
+        try {
+          // An account switch mid-run moves the expected signer away from the actor
+          assertActor(getRun(id), getExpectedSigner());
+          const txHash = await executeCall(call);
+          updateStep(id, index, { status: 'done', txHash });
+        } catch (error) {
+          const registryError = toRegistryError(error, `${step.label} failed`);
+          console.error(`Workflow step "${step.label}" failed:`, error);
+          updateStep(id, index, { status: 'failed', error: registryError.message });
+
+          // A rejected prompt means the user said no; don't prompt again for the rest of a batch
+          if (!getRun(id).continueOnError || registryError.kind === 'user-rejected' || registryError.kind === 'account-mismatch') {
+            updateRun(id, { status: 'failed' });
+            return getRun(id);
+          }
+          failedSteps++;
+        }
+      }
+
+      if (failedSteps > 0) {
+        updateRun(id, { status: 'failed' });
+        return getRun(id);
+      }
+
+      console.log(`✅ Workflow ${getRun(id).name} completed`);
+      updateRun(id, { status: 'completed' });
+      return getRun(id);
+    } finally {
+      active.delete(id);
+    }
+  })();
+
+  active.set(id, runner);
+  return runner;
+};
+
+/**
+ * Store a run for a compound action without executing it yet; resumeWorkflow starts it
+ */
+export const createWorkflow = (definition: WorkflowDefinition): string => {
+  const now = Date.now();
+  const run: WorkflowRun = {
+    id: `${definition.name}-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    ...definition,
+    steps: definition.steps.map((step) => ({ ...step, status: 'pending' })),
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  };
+  workflows = [run, ...workflows];
+  persist();
+  return run.id;
+};
+
+/**
+ * Create a run for a compound action and execute it. Resolves once it completes or a step fails
+ * (check the returned status); the run stays in storage so a failed step can be resumed or skipped.
+ */
+export const startWorkflow = (definition: WorkflowDefinition): Promise<WorkflowRun> => drive(createWorkflow(definition));
+
+/**
+ * Retry the failed step and continue with the rest
+ */
+export const resumeWorkflow = (id: string): Promise<WorkflowRun> => drive(id);
+
+/**
+ * Mark the failed step as skipped and continue with the rest
+ */
+export const skipWorkflowStep = (id: string): Promise<WorkflowRun> => {
+  const index = getRun(id).steps.findIndex((step) => step.status === 'failed');
+  if (index !== -1) {
+    updateStep(id, index, { status: 'skipped' });
+  }
+  return drive(id);
+};
+
+/**
+ * Hide a run from the progress queue. Completed runs stay in the history; dismissing a failed
+ * or paused run abandons it, so it is removed from storage.
+ */
+export const dismissWorkflow = (id: string) => {
+  if (getRun(id).status === 'completed') {
+    updateRun(id, { dismissed: true });
+    return;
+  }
+  workflows = workflows.filter((run) => run.id !== id);
+  persist();
+};
+
+/**
+ * Work out what happened to steps that were in flight when the page was closed or reloaded.
+ * A step whose transaction was sent is settled from the transaction tracker; the run is then
+ * paused rather than continued, so no wallet prompt appears without the user asking for it.
+ */
+export const recoverInterruptedWorkflows = async (): Promise<void> => {
+  const interrupted = workflows.filter((run) => run.status === 'running' && !active.has(run.id));
+  if (interrupted.length === 0) return;
+
+  console.log(`🔁 Recovering ${interrupted.length} interrupted workflow(s)`);
+  await Promise.all(interrupted.map(async (run) => {
+    const index = run.steps.findIndex((step) => step.status === 'running');
+    if (index === -1) {
+      updateRun(run.id, { status: 'paused' });
+      return;
+    }
+
+    const step = run.steps[index];
+    const sent = getTransactions().find((tx) =>
+      tx.kind === 'original' &&
+      tx.action === step.call.method &&
+      tx.assetId === run.assetId &&
+      tx.submittedAt >= (step.startedAt ?? run.createdAt)
+    );
+
+    if (!sent) {
+      updateStep(run.id, index, { status: 'failed', error: 'Interrupted before the transaction was sent.' });
+      updateRun(run.id, { status: 'failed' });
+      return;
+    }
+
+    try {
+      const txHash = await waitForTransaction(sent.hash);
+      updateStep(run.id, index, { status: 'done', txHash });
+      const finished = getRun(run.id).steps.every((s) => s.status === 'done' || s.status === 'skipped');
+      updateRun(run.id, { status: finished ? 'completed' : 'paused' });
+    } catch (error) {
+      updateStep(run.id, index, { status: 'failed', txHash: sent.hash, error: toRegistryError(error).message });
+      updateRun(run.id, { status: 'failed' });
+    }
+  }));
+};
@@ -0,0 +1,63 @@
+import type {
+  DigitalAssetRegistryFunctionInputs,
+  DigitalAssetRegistryWriteFunction,
+} from '../contracts/DigitalAssetRegistry.types';
+
+/**
+ * One registry write, with arguments typed from the ABI
+ */
+export type WriteCall = {
+  [M in DigitalAssetRegistryWriteFunction]: { method: M; args: DigitalAssetRegistryFunctionInputs[M] };
+}[DigitalAssetRegistryWriteFunction];
+
+/**
+ * Usage log descriptions recorded alongside each action
+ */
+export const usageMessages = {
+  transfer: (actor: string, newOwner: string) => `User ${actor} transferred ownership to ${newOwner}`,
+  grant: (actor: string, grantee: string) => `User ${actor} granted access to ${grantee}`,
+  revoke: (actor: string, grantee: string) => `User ${actor} revoked access from ${grantee}`,
+  bulk: (actor: string, mode: 'grant' | 'revoke', addresses: string[]) =>
+    mode === 'grant'
+      ? `User ${actor} granted access to ${addresses.length} addresses: ${addresses.join(', ')}`
+      : `User ${actor} revoked access from ${addresses.length} addresses: ${addresses.join(', ')}`,
+  download: (actor: string, assetName: string) => `User ${actor} downloaded the asset file "${assetName}"`,
+  custom: (actor: string, description: string) => `User ${actor} - ${description}`,
+};
+
+// Stand-in for a CID that is not known until the file is uploaded (same length as a CIDv0)
+const PLACEHOLDER_CID = 'Qm' + '1'.repeat(44);
+
+/**
+ * Transactions sent by each user-facing action, in order
+ */
+export const writeFlows = {
+  registerAsset: (name: string, assetType: string, description: string, assetURI: string = PLACEHOLDER_CID): WriteCall[] => [
+    { method: 'registerAsset', args: [name, assetType, description, assetURI] },
+  ],
+  // The previous owner grants itself access and logs the transfer while it still can
+  transferOwnership: (assetId: number, actor: string, newOwner: string): WriteCall[] => [
+    { method: 'grantPermission', args: [assetId, actor] },
+    { method: 'logUsage', args: [assetId, usageMessages.transfer(actor, newOwner)] },
+    { method: 'transferOwnership', args: [assetId, newOwner] },
+  ],
+  grantAccess: (assetId: number, actor: string, grantee: string): WriteCall[] => [
+    { method: 'grantPermission', args: [assetId, grantee] },
+    { method: 'logUsage', args: [assetId, usageMessages.grant(actor, grantee)] },
+  ],
+  revokeAccess: (assetId: number, actor: string, grantee: string): WriteCall[] => [
+    { method: 'revokePermission', args: [assetId, grantee] },
+    { method: 'logUsage', args: [assetId, usageMessages.revoke(actor, grantee)] },
+  ],
+  // One permission change per address, then a single summary log entry
+  bulkChange: (assetId: number, actor: string, mode: 'grant' | 'revoke', addresses: string[]): WriteCall[] => [
+    ...addresses.map((address): WriteCall => ({
+      method: mode === 'grant' ? 'grantPermission' : 'revokePermission',
+      args: [assetId, address],
+    })),
+    { method: 'logUsage', args: [assetId, usageMessages.bulk(actor, mode, addresses)] },
+  ],
+  download: (assetId: number, actor: string, assetName: string): WriteCall[] => [
+    { method: 'logUsage', args: [assetId, usageMessages.download(actor, assetName)] },
+  ],
+};
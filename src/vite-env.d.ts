@@ -2,6 +2,9 @@
 
 interface ImportMetaEnv {
   readonly VITE_CONTRACT_ADDRESS: string;
+  readonly VITE_DEPLOYMENT_BLOCK: string;
+  readonly VITE_LOG_PAGE_SIZE: string;
+  readonly VITE_RPC_URL: string;
   readonly VITE_PINATA_API_KEY: string;
   readonly VITE_PINATA_SECRET_KEY: string;
   readonly VITE_WEB3_STORAGE_TOKEN: string;
@@ -9,6 +12,13 @@ interface ImportMetaEnv {
   readonly VITE_INFURA_PROJECT_SECRET: string;
   readonly VITE_NETWORK_NAME: string;
   readonly VITE_CHAIN_ID: string;
+  readonly VITE_CHAIN_NAME: string;
+  readonly VITE_EXPLORER_URL: string;
+  readonly VITE_CURRENCY_SYMBOL: string;
+  readonly VITE_ENS_RPC_URL: string;
+  readonly VITE_ENS_REGISTRY: string;
+  readonly VITE_DEV_MNEMONIC: string;
+  readonly VITE_DEV_ACCOUNT_COUNT: string;
 }
 
 interface ImportMeta {